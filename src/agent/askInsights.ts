@@ -0,0 +1,83 @@
+// src/agent/askInsights.ts
+
+import { ChatPrompt, IChatModel } from '@microsoft/teams.ai';
+import { StoredInsight } from '../schemas';
+import { bm25Rank, insightSearchText } from '../retrieval/lexical';
+
+export interface Citation {
+    /** The `[n]` the answer uses for this source. */
+    n: number;
+    insight: StoredInsight;
+}
+
+export interface GroundedAnswer {
+    answer: string;
+    /** Sources the answer actually cites, in `n` order. */
+    citations: Citation[];
+    /** How many insights were retrieved as context. */
+    retrieved: number;
+}
+
+export interface AskOptions {
+    /** Insights retrieved as context for the model. */
+    topK: number;
+    /** Characters of each insight's source text included in the context. */
+    excerptChars: number;
+}
+
+export const DEFAULT_ASK_OPTIONS: AskOptions = { topK: 6, excerptChars: 1200 };
+
+// One numbered context block per retrieved insight
+function contextBlock(n: number, insight: StoredInsight, excerptChars: number): string {
+    const a = insight.analysis;
+    const lines = [`[${n}] ${insight.originalId} (${insight.originalSource})`];
+    if (!('error' in a)) {
+        lines.push(`Summary: ${a.summary}`, `Pain points: ${a.painPoints.join('; ')}`, `Priority: ${a.priority}`);
+    }
+    if (insight.content?.text) {
+        const text = insight.content.text;
+        lines.push(`Source text: ${text.length > excerptChars ? `${text.slice(0, excerptChars)}…` : text}`);
+    }
+    return lines.join('\n');
+}
+
+const INSTRUCTIONS = (context: string) => `You answer questions about developer feedback on the Teams platform using ONLY the numbered sources below.
+Cite the sources that support each statement as [n]. If the sources don't answer the question, say so instead of guessing.
+Keep the answer concise; bullets are fine.
+
+Sources:
+${context}`;
+
+// --- Retrieval-augmented Q&A across the whole insight store ---
+// `retrieve` ranks the candidates for the question (BM25 over analysis + source text by default).
+export async function answerFromInsights(
+    question: string,
+    insights: StoredInsight[],
+    model: IChatModel,
+    options: AskOptions = DEFAULT_ASK_OPTIONS,
+    retrieve: (question: string, insights: StoredInsight[]) => Promise<StoredInsight[]> | StoredInsight[] =
+        (q, candidates) => bm25Rank(q, candidates, insightSearchText).map(scored => scored.item)
+): Promise<GroundedAnswer> {
+    const context = (await retrieve(question, insights)).slice(0, options.topK);
+    if (!context.length) {
+        return { answer: "I couldn't find any insights related to that question.", citations: [], retrieved: 0 };
+    }
+
+    const prompt = new ChatPrompt({
+        instructions: INSTRUCTIONS(context.map((insight, i) => contextBlock(i + 1, insight, options.excerptChars)).join('\n\n')),
+        model,
+    });
+    const response = await prompt.send(question);
+    const answer = response.content?.trim() || "Sorry, I couldn't answer your question.";
+
+    // Accepts [1], [1, 3] and [1][3]
+    const cited = new Set<number>();
+    for (const group of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+        group[1].split(',').map(Number).forEach(n => cited.add(n));
+    }
+    const citations = [...cited]
+        .filter(n => n >= 1 && n <= context.length)
+        .sort((a, b) => a - b)
+        .map(n => ({ n, insight: context[n - 1] }));
+    return { answer, citations, retrieved: context.length };
+}
@@ -0,0 +1,72 @@
+// src/agent/digest.ts
+
+import { ChatPrompt, IChatModel } from '@microsoft/teams.ai';
+import { Priority } from '../schemas';
+import { RankedInsight } from '../analysis/impactScore';
+import { Topic } from '../analysis/topics';
+
+export interface Digest {
+    /** LLM-written executive summary. */
+    summary: string;
+    newCount: number;
+    priorityCounts: Record<Priority, number>;
+    /** Topics with the most new insights, biggest first. */
+    topTopics: { label: string; count: number }[];
+    /** Highest-impact new insights, to link from the digest. */
+    highlights: RankedInsight[];
+}
+
+export interface DigestOptions {
+    maxTopics: number;
+    maxHighlights: number;
+    /** Insights (highest impact first) described to the model. */
+    maxContext: number;
+}
+
+export const DEFAULT_DIGEST_OPTIONS: DigestOptions = { maxTopics: 5, maxHighlights: 5, maxContext: 30 };
+
+const INSTRUCTIONS = (facts: string) => `You write the executive summary of a recurring digest of developer feedback on the Teams platform,
+for product and developer-relations leads. Use ONLY the data below. In 3-5 sentences, say what the main themes are,
+what looks urgent, and anything that stands out. Don't list IDs or repeat every count; the digest shows those separately.
+
+${facts}`;
+
+// --- Digest of the insights that are new since the previous one; `insights` are highest impact first ---
+export async function writeDigest(
+    insights: RankedInsight[],
+    topics: Topic[],
+    model: IChatModel,
+    options: DigestOptions = DEFAULT_DIGEST_OPTIONS
+): Promise<Digest> {
+    const analyzed = insights.filter(insight => !('error' in insight.analysis));
+    const priorityCounts: Record<Priority, number> = { high: 0, medium: 0, low: 0 };
+    for (const insight of analyzed) {
+        const a = insight.analysis;
+        if (!('error' in a)) priorityCounts[a.priority]++;
+    }
+
+    const ids = new Set(analyzed.map(insight => insight.originalId));
+    const topTopics = topics
+        .map(topic => ({ label: topic.label, count: topic.memberIds.filter(id => ids.has(id)).length }))
+        .filter(topic => topic.count > 0)
+        .sort((a, b) => b.count - a.count)
+        .slice(0, options.maxTopics);
+    const digest = { newCount: analyzed.length, priorityCounts, topTopics, highlights: analyzed.slice(0, options.maxHighlights) };
+    if (!analyzed.length) {
+        return { ...digest, summary: 'No new insights this period.' };
+    }
+
+    const facts = [
+        `New insights: ${analyzed.length} (${priorityCounts.high} high, ${priorityCounts.medium} medium, ${priorityCounts.low} low priority)`,
+        'Top topics:',
+        ...(topTopics.length ? topTopics.map(topic => `- ${topic.label} (${topic.count})`) : ['- (none recurring)']),
+        'Insights, highest impact first:',
+        ...analyzed.slice(0, options.maxContext).map(insight => {
+            const a = insight.analysis;
+            return 'error' in a ? '' : `- [${a.priority}] ${a.summary} (${[a.category, a.productArea].filter(Boolean).join(', ') || 'uncategorized'})`;
+        }),
+    ].join('\n');
+    const prompt = new ChatPrompt({ instructions: INSTRUCTIONS(facts), model });
+    const response = await prompt.send('Write the executive summary.');
+    return { ...digest, summary: response.content?.trim() || `${analyzed.length} new insights this period.` };
+}
@@ -0,0 +1,187 @@
+// src/agent/insightAgent.ts
+
+import { ChatPrompt, IChatModel } from '@microsoft/teams.ai';
+import { FeedbackCategorySchema, PrioritySchema, ProductAreaSchema, StoredInsight, TriageStatusSchema } from '../schemas';
+import { InsightFilter, matchesKeyword, parseInsightQuery } from '../insightQuery';
+import { RankedInsight } from '../analysis/impactScore';
+import { Topic } from '../analysis/topics';
+
+// What the agent's tools read from; the bot passes in its store-backed helpers.
+export interface InsightAgentSources {
+    /** Insights matching the filter, highest impact first. */
+    rankedInsights(filter?: InsightFilter): Promise<RankedInsight[]>;
+    getInsight(id: string): Promise<StoredInsight | undefined>;
+    topics(): Promise<Topic[]>;
+}
+
+export interface InsightAgentAnswer {
+    answer: string;
+    /** Insights the tools returned that the answer refers to by ID, in order of first mention. */
+    cited: StoredInsight[];
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INSTRUCTIONS = (today: string) => `You are the Teams Platform Community Insights assistant. You answer questions about developer feedback
+(Stack Overflow questions, GitHub issues, ...) that has been analyzed into insights with a summary, pain points,
+priority, category, product area, sentiment, mentioned APIs and an impact score.
+Always use the tools to look insights up; never make up insights, counts or IDs.
+When you mention an insight, cite its ID in square brackets, e.g. [github:MicrosoftDocs/msteams-docs:1234].
+If the tools return nothing relevant, say so plainly. Keep answers short and skimmable (bullets are fine).
+Today is ${today}.`;
+
+// When the item was posted at the source, falling back to when we first ingested it
+const postedAt = (insight: StoredInsight) => Date.parse(insight.metadata?.createdAt ?? insight.firstSeenAt);
+
+// "7d", "30d" or an ISO date
+function parseSince(since: string | undefined, now: number): number | undefined {
+    if (!since) return undefined;
+    const days = since.trim().match(/^(\d+)\s*d$/i);
+    const time = days ? now - Number(days[1]) * DAY_MS : Date.parse(since);
+    return Number.isNaN(time) ? undefined : time;
+}
+
+// Compact view of an insight for tool output; keeps the model's context small
+function brief(insight: RankedInsight) {
+    const a = insight.analysis;
+    return 'error' in a
+        ? { id: insight.originalId, source: insight.originalSource, analysisFailed: a.error }
+        : {
+            id: insight.originalId,
+            source: insight.originalSource,
+            url: insight.originalUrl,
+            summary: a.summary,
+            priority: a.priority,
+            category: a.category,
+            productArea: a.productArea,
+            impact: insight.impact,
+            status: insight.triage?.status ?? 'new',
+            assignee: insight.triage?.assignee,
+            postedAt: new Date(postedAt(insight)).toISOString().slice(0, 10),
+        };
+}
+
+const limitOf = (limit?: number) => Math.min(MAX_LIMIT, Math.max(1, limit ?? DEFAULT_LIMIT));
+
+// Position of the first mention of `id` in `text`, not counting longer IDs it is a prefix of (`...:12` in `...:123`)
+function mentionAt(text: string, id: string): number {
+    const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return text.search(new RegExp(`(?<![A-Za-z0-9])${escaped}(?![A-Za-z0-9])`, 'i'));
+}
+
+// --- Answers free-form questions with function-calling tools over the insight store ---
+export async function askInsightAgent(
+    question: string,
+    model: IChatModel,
+    sources: InsightAgentSources,
+    now = Date.now()
+): Promise<InsightAgentAnswer> {
+    // Everything a tool hands to the model, so the answer's citations can be resolved afterwards
+    const seen = new Map<string, StoredInsight>();
+    const reveal = (insights: RankedInsight[]) => {
+        insights.forEach(insight => seen.set(insight.originalId, insight));
+        return insights.map(brief);
+    };
+    const since = (insights: RankedInsight[], value?: string) => {
+        const from = parseSince(value, now);
+        return from === undefined ? insights : insights.filter(insight => postedAt(insight) >= from);
+    };
+
+    const prompt = new ChatPrompt({ instructions: INSTRUCTIONS(new Date(now).toISOString().slice(0, 10)), model })
+        .function(
+            'search_insights',
+            'Full-text search over insight summaries, pain points and APIs, highest impact first. ' +
+            'The query may include facet tokens: priority:<low|medium|high>, category:<...>, area:<...>, api:<name>, status:<...>, assignee:<name>.',
+            {
+                type: 'object',
+                properties: {
+                    query: { type: 'string', description: 'Keywords and/or facet tokens, e.g. "token exchange area:auth"' },
+                    since: { type: 'string', description: 'Only items posted since then: "7d", "30d" or an ISO date' },
+                    limit: { type: 'integer', description: `Maximum results (default ${DEFAULT_LIMIT}, at most ${MAX_LIMIT})` },
+                },
+                required: ['query'],
+            },
+            async ({ query, since: sinceValue, limit }: { query: string; since?: string; limit?: number }) => {
+                const { keyword, filter, errors } = parseInsightQuery(query ?? '');
+                if (errors.length) {
+                    return { errors };
+                }
+                const matches = (await sources.rankedInsights(filter)).filter(insight => !keyword || matchesKeyword(insight, keyword));
+                const found = since(matches, sinceValue);
+                return { total: found.length, insights: reveal(found.slice(0, limitOf(limit))) };
+            }
+        )
+        .function(
+            'filter_insights',
+            'Lists insights by facet or triage state, highest impact first. Use for questions like "top auth complaints this month" ' +
+            'or "untriaged high-priority bugs".',
+            {
+                type: 'object',
+                properties: {
+                    priority: { type: 'string', enum: PrioritySchema.options },
+                    category: { type: 'string', enum: FeedbackCategorySchema.options },
+                    productArea: { type: 'string', enum: ProductAreaSchema.options },
+                    api: { type: 'string', description: 'Part of an SDK/API name' },
+                    status: { type: 'string', enum: TriageStatusSchema.options, description: "The team's triage status" },
+                    assignee: { type: 'string', description: 'Part of the assignee\'s name, or "none" for unassigned' },
+                    since: { type: 'string', description: 'Only items posted since then: "7d", "30d" or an ISO date' },
+                    limit: { type: 'integer', description: `Maximum results (default ${DEFAULT_LIMIT}, at most ${MAX_LIMIT})` },
+                },
+            },
+            async ({ since: sinceValue, limit, ...filter }: InsightFilter & { since?: string; limit?: number }) => {
+                const found = since(await sources.rankedInsights(filter), sinceValue);
+                return { total: found.length, insights: reveal(found.slice(0, limitOf(limit))) };
+            }
+        )
+        .function(
+            'get_insight',
+            'Full details of one insight by ID: analysis, pain points, triage (status, assignee, notes), source metadata and an excerpt of the (redacted) text.',
+            {
+                type: 'object',
+                properties: { id: { type: 'string', description: 'Insight ID, e.g. "stackoverflow:stackoverflow:123"' } },
+                required: ['id'],
+            },
+            async ({ id }: { id: string }) => {
+                const insight = await sources.getInsight(id);
+                if (!insight) {
+                    return { error: `No insight with ID ${id}` };
+                }
+                seen.set(insight.originalId, insight);
+                return {
+                    id: insight.originalId,
+                    source: insight.originalSource,
+                    url: insight.originalUrl,
+                    analysis: insight.analysis,
+                    triage: insight.triage,
+                    metadata: insight.metadata,
+                    excerpt: insight.content?.text.slice(0, 1500),
+                };
+            }
+        )
+        .function(
+            'topic_stats',
+            'Recurring topics (groups of similar pain points across insights), biggest first, with member counts and priorities.',
+            {
+                type: 'object',
+                properties: { limit: { type: 'integer', description: `Maximum topics (default ${DEFAULT_LIMIT})` } },
+            },
+            async ({ limit }: { limit?: number }) => {
+                const topics = await sources.topics();
+                return {
+                    total: topics.length,
+                    topics: topics.slice(0, limitOf(limit)).map(({ memberIds, ...topic }) => topic),
+                };
+            }
+        );
+
+    const response = await prompt.send(question);
+    const answer = response.content?.trim() || "Sorry, I couldn't find an answer to that.";
+    const cited = [...seen.values()]
+        .map(insight => ({ insight, at: mentionAt(answer, insight.originalId) }))
+        .filter(({ at }) => at >= 0)
+        .sort((a, b) => a.at - b.at)
+        .map(({ insight }) => insight);
+    return { answer, cited };
+}
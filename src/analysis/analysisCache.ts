@@ -0,0 +1,82 @@
+// src/analysis/analysisCache.ts
+
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { AnalysisObject, AnalysisObjectSchema } from '../schemas';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+// Whitespace-only edits (re-wrapped lines, trailing spaces) shouldn't invalidate a cached analysis.
+export function normalizeForCache(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+// A result is only reusable for the same text, the same instructions and the same model.
+export function analysisCacheKey(text: string, promptVersion: string, modelId: string): string {
+    return createHash('sha256')
+        .update(JSON.stringify([normalizeForCache(text), promptVersion, modelId]))
+        .digest('hex');
+}
+
+// --- Successful analyses keyed by analysisCacheKey ---
+export interface AnalysisCache {
+    get(key: string): AnalysisObject | undefined;
+    set(key: string, analysis: AnalysisObject): void;
+    /** Persists pending writes; called once at the end of each run. */
+    flush(): Promise<void>;
+}
+
+export class MemoryAnalysisCache implements AnalysisCache {
+    protected readonly entries = new Map<string, AnalysisObject>();
+
+    get(key: string): AnalysisObject | undefined {
+        return this.entries.get(key);
+    }
+
+    set(key: string, analysis: AnalysisObject): void {
+        this.entries.set(key, analysis);
+    }
+
+    async flush(): Promise<void> {}
+}
+
+// Same shape on disk as in memory; entries that no longer match the schema are dropped on load.
+export class FileAnalysisCache extends MemoryAnalysisCache {
+    private dirty = false;
+
+    constructor(private readonly file: string) {
+        super();
+        const stored = readJsonFile<Record<string, unknown>>(file, {});
+        for (const [key, value] of Object.entries(stored)) {
+            const parsed = AnalysisObjectSchema.safeParse(value);
+            if (parsed.success) {
+                this.entries.set(key, parsed.data);
+            }
+        }
+    }
+
+    set(key: string, analysis: AnalysisObject): void {
+        super.set(key, analysis);
+        this.dirty = true;
+    }
+
+    async flush(): Promise<void> {
+        if (this.dirty) {
+            writeJsonFile(this.file, Object.fromEntries(this.entries));
+            this.dirty = false;
+        }
+    }
+}
+
+// ANALYSIS_CACHE=file (default) keeps cached analyses across restarts, "memory" for the process only, "off" disables it.
+export function createAnalysisCache(kind = process.env.ANALYSIS_CACHE || 'file'): AnalysisCache | undefined {
+    switch (kind) {
+        case 'off':
+            return undefined;
+        case 'memory':
+            return new MemoryAnalysisCache();
+        case 'file':
+            return new FileAnalysisCache(process.env.ANALYSIS_CACHE_FILE || path.join(DATA_DIR, 'analysis-cache.json'));
+        default:
+            throw new Error(`Unknown ANALYSIS_CACHE "${kind}" (expected "file", "memory" or "off")`);
+    }
+}
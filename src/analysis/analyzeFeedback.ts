@@ -0,0 +1,263 @@
+// src/analysis/analyzeFeedback.ts
+
+import { ChatPrompt, IChatModel, Message } from '@microsoft/teams.ai';
+import {
+    AnalysisError,
+    AnalysisObject,
+    AnalysisOutputSchema,
+    AnalysisResult,
+    FeedbackCategorySchema,
+    FeedbackItem,
+    NormalizedContent,
+    RedactionReport,
+    PrioritySchema,
+    ProductAreaSchema,
+    RETRYABLE_FAILURE_REASONS
+} from '../schemas';
+import { mapWithConcurrency } from './concurrency';
+import { RetryOptions, ThrottleGate, withRetry } from './retry';
+import { BudgetExhaustedError, RunBudget, estimateTokens } from './budget';
+import { AnalysisCache, analysisCacheKey } from './analysisCache';
+import { NormalizeOptions, modelInputFor, normalizeFeedbackText } from './normalize';
+import { Redactor } from '../redaction';
+
+// Bump whenever ANALYSIS_INSTRUCTIONS or the expected output changes, so cached analyses are redone.
+export const ANALYSIS_PROMPT_VERSION = '2';
+
+const OUTPUT_FIELDS = `'painPoints' (array of strings), 'summary' (string), 'priority' (one of ${PrioritySchema.options.join(', ')}), ` +
+    `'category' (one of ${FeedbackCategorySchema.options.join(', ')}), ` +
+    `'productArea' (one of ${ProductAreaSchema.options.join(', ')}), ` +
+    `'sentiment' (number from -1 very negative to 1 very positive) and ` +
+    `'apis' (array of SDK, package, class or API names mentioned, e.g. "TeamsFx", "Graph /me/joinedTeams"; empty if none)`;
+
+const ANALYSIS_INSTRUCTIONS = `Analyze the following developer feedback to identify key pain points, recurring issues, and actionable insights.
+                              Output a JSON object with ${OUTPUT_FIELDS}.
+                              Ensure the output is always a valid JSON string.`;
+
+export interface AnalysisPipelineOptions {
+    model: IChatModel;
+    /** Identifies the model/deployment in cache keys. */
+    modelId: string;
+    /** Reuses earlier analyses of unchanged text; omit to always call the model. */
+    cache?: AnalysisCache;
+    /** Items analyzed in parallel. */
+    concurrency: number;
+    retry: RetryOptions;
+    /** Times invalid output is sent back to the model with the validation errors before giving up. */
+    maxRepairs: number;
+    /** Per-run caps; items past the budget are recorded as errors instead of being sent. */
+    budget: { maxRequests?: number; maxTokens?: number };
+    /** How feedback text is cleaned up and cut down before it is sent. */
+    normalization: NormalizeOptions;
+    /** Masks secrets and personal data before anything reaches the model or the results; omit to send text as is. */
+    redactor?: Redactor;
+}
+
+// State shared by all workers of one run
+interface AnalysisRun {
+    options: AnalysisPipelineOptions;
+    budget: RunBudget;
+    gate: ThrottleGate;
+}
+
+type ParsedAnalysis =
+    | { success: true; analysis: AnalysisObject }
+    | { success: false; reason: 'invalid_json' | 'schema_mismatch'; issues: string[] };
+
+// Accepts the JSON bare or wrapped in a ``` / ```json fence, then validates it against AnalysisOutputSchema.
+export function parseAnalysisOutput(content: string): ParsedAnalysis {
+    const fenced = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    const jsonString = (fenced ? fenced[1] : content).trim();
+
+    let json: unknown;
+    try {
+        json = JSON.parse(jsonString);
+    } catch (parseError: any) {
+        return { success: false, reason: 'invalid_json', issues: [parseError.message] };
+    }
+    const validation = AnalysisOutputSchema.safeParse(json);
+    if (!validation.success) {
+        return {
+            success: false,
+            reason: 'schema_mismatch',
+            issues: validation.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        };
+    }
+    return { success: true, analysis: validation.data };
+}
+
+const repairInstructions = (issues: string[]) =>
+    `Your previous response could not be used:\n${issues.map(issue => `- ${issue}`).join('\n')}\n` +
+    `Reply with only the corrected JSON object with ${OUTPUT_FIELDS}.`;
+
+// One model call with retry/backoff and budget accounting. `history` is replayed on every attempt,
+// so a failed attempt never leaves a half-written exchange behind.
+const sendToModel = (run: AnalysisRun, input: string, history: Message[], label: string) =>
+    withRetry(async () => {
+        run.budget.reserve(estimateTokens(ANALYSIS_INSTRUCTIONS + history.map(m => m.content ?? '').join('') + input));
+        const prompt = new ChatPrompt({
+            instructions: ANALYSIS_INSTRUCTIONS,
+            model: run.options.model,
+        });
+        const response = await prompt.send(input, { messages: [...history] });
+        run.budget.record(estimateTokens(response.content ?? ''));
+        return response;
+    }, run.options.retry, run.gate, label);
+
+// An item's text as it is analyzed and stored: normalized first, so entities are decoded and markup is gone
+// before the detectors look at it, then redacted field by field
+interface PreparedItem {
+    content: NormalizedContent;
+    modelInput: string;
+    redaction?: RedactionReport;
+}
+
+const prepareItem = (item: FeedbackItem, options: AnalysisPipelineOptions): PreparedItem => {
+    const normalized = normalizeFeedbackText(item.text, options.normalization);
+    const redactor = options.redactor;
+    if (!redactor) {
+        return { content: normalized, modelInput: modelInputFor(normalized, options.normalization) };
+    }
+    const report: RedactionReport = {};
+    const redact = (text: string) => {
+        const redacted = redactor.redact(text);
+        for (const [detector, count] of Object.entries(redacted.report)) {
+            report[detector] = (report[detector] ?? 0) + count;
+        }
+        return redacted.text;
+    };
+    const content: NormalizedContent = {
+        ...normalized,
+        text: redact(normalized.text),
+        codeBlocks: normalized.codeBlocks.map(redact),
+        stackTraces: normalized.stackTraces.map(redact),
+    };
+    return {
+        content,
+        modelInput: modelInputFor(content, options.normalization),
+        redaction: Object.keys(report).length ? report : undefined
+    };
+};
+
+// Carries the item's identity, source metadata and prepared text over to its result
+const resultFor = (item: FeedbackItem, prepared: PreparedItem, analysis: AnalysisResult['analysis']): AnalysisResult => ({
+    originalId: item.id,
+    originalSource: item.source,
+    originalUrl: item.url,
+    metadata: item.metadata,
+    content: prepared.content,
+    redaction: prepared.redaction,
+    analysis
+});
+
+// --- AI-Driven Feedback/Pain Point Extraction Logic for a single item ---
+// Invalid output is sent back to the model together with the validation issues, up to `maxRepairs` times.
+const analyzeFeedbackItem = async (item: FeedbackItem, prepared: PreparedItem, run: AnalysisRun): Promise<AnalysisResult> => {
+    console.log(`Processing feedback item ID: ${item.id} from ${item.source}`);
+    const result = (analysis: AnalysisResult['analysis']) => resultFor(item, prepared, analysis);
+
+    const history: Message[] = [];
+    let input = prepared.modelInput;
+    let failure: AnalysisError | undefined;
+    for (let attempt = 1; attempt <= run.options.maxRepairs + 1; attempt++) {
+        let content: string | undefined;
+        try {
+            content = (await sendToModel(run, input, history, `analysis of ${item.id}`)).content;
+        } catch (aiError: any) {
+            const budgetExhausted = aiError instanceof BudgetExhaustedError;
+            if (budgetExhausted) {
+                console.warn(`Skipping item ${item.id}: ${aiError.message}`);
+            } else {
+                console.error(`AI analysis failed for item ${item.id}:`, aiError.message || aiError);
+            }
+            return result({
+                error: aiError.message || "AI analysis failed",
+                reason: budgetExhausted ? 'budget_exhausted' : 'model_error',
+                attempts: attempt - 1,
+                ...(failure && { issues: failure.issues, rawOutput: failure.rawOutput })
+            });
+        }
+
+        if (!content) {
+            console.warn(`AI returned no content for item ${item.id}.`);
+            return result({ error: "No AI content", reason: 'no_content', attempts: attempt });
+        }
+
+        const parsed = parseAnalysisOutput(content);
+        if (parsed.success) {
+            console.log(`Successfully analyzed item ${item.id}. Priority: ${parsed.analysis.priority}` +
+                (attempt > 1 ? ` (after ${attempt - 1} repair attempt(s))` : ''));
+            return result(parsed.analysis);
+        }
+
+        console.warn(`Invalid AI output for item ${item.id} (attempt ${attempt}): ${parsed.issues.join('; ')}`);
+        failure = {
+            error: parsed.reason === 'invalid_json' ? "AI output not valid JSON" : "AI output does not match the analysis schema",
+            reason: parsed.reason,
+            issues: parsed.issues,
+            attempts: attempt,
+            rawOutput: content
+        };
+        history.push({ role: 'user', content: input }, { role: 'model', content });
+        input = repairInstructions(parsed.issues);
+    }
+
+    console.error(`Giving up on item ${item.id}: ${failure!.error}`);
+    return result(failure!);
+};
+
+export interface AnalysisStats {
+    cacheHits: number;
+    freshAnalyses: number;
+    failed: number;
+    redactedItems: number;
+    /** Items that failed with a retryable reason; the client holds their sources' cursors. */
+    retryableIds: string[];
+}
+
+// Analyzes a batch through a bounded worker pool. Each item's text is normalized and redacted first;
+// items whose resulting text was analyzed before (same prompt version and model) are served from the cache. Results keep the input order; each one is also
+// reported as soon as it lands so ingestion jobs can track progress.
+export const analyzeFeedback = async (
+    feedback: FeedbackItem[],
+    options: AnalysisPipelineOptions,
+    onItemAnalyzed?: (result: AnalysisResult, info: { cached: boolean }) => void
+) => {
+    console.log(`AI analysis received ${feedback.length} feedback items (concurrency ${options.concurrency}).`);
+    const run: AnalysisRun = { options, budget: new RunBudget(options.budget), gate: { resumeAt: 0 } };
+    const stats: AnalysisStats = { cacheHits: 0, freshAnalyses: 0, failed: 0, redactedItems: 0, retryableIds: [] };
+
+    const analyzedResults = await mapWithConcurrency(feedback, options.concurrency, async item => {
+        const prepared = prepareItem(item, options);
+        if (prepared.redaction) {
+            stats.redactedItems++;
+        }
+        const cacheKey = analysisCacheKey(prepared.modelInput, ANALYSIS_PROMPT_VERSION, options.modelId);
+        const cached = options.cache?.get(cacheKey);
+        let result: AnalysisResult;
+        if (cached) {
+            stats.cacheHits++;
+            result = resultFor(item, prepared, cached);
+        } else {
+            result = await analyzeFeedbackItem(item, prepared, run);
+            if ('error' in result.analysis) {
+                stats.failed++;
+                if (result.analysis.reason && RETRYABLE_FAILURE_REASONS.includes(result.analysis.reason)) {
+                    stats.retryableIds.push(item.id);
+                }
+            } else {
+                stats.freshAnalyses++;
+                options.cache?.set(cacheKey, result.analysis);
+            }
+        }
+        onItemAnalyzed?.(result, { cached: !!cached });
+        return result;
+    });
+    await options.cache?.flush();
+
+    const { requests, tokens } = run.budget.usage;
+    console.log(`Completed analysis for ${analyzedResults.length} items: ${stats.cacheHits} cache hits, ` +
+        `${stats.freshAnalyses} fresh, ${stats.failed} failed, ${stats.redactedItems} redacted ` +
+        `(${requests} model requests, ~${tokens} tokens).`);
+    return { analyzedResults, stats };
+};
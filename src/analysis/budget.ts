@@ -0,0 +1,44 @@
+// src/analysis/budget.ts
+
+export class BudgetExhaustedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExhaustedError';
+  }
+}
+
+// Rough token count (~4 characters per token); the chat model doesn't report usage back to us.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Caps the model requests and (estimated) tokens a single ingestion run may spend.
+// Unset limits are unlimited.
+export class RunBudget {
+  private requests = 0;
+  private tokens = 0;
+
+  constructor(private readonly limits: { maxRequests?: number; maxTokens?: number }) {}
+
+  // Call before each model request with the estimated prompt size; throws once a limit would be crossed.
+  reserve(promptTokens: number): void {
+    const { maxRequests, maxTokens } = this.limits;
+    if (maxRequests !== undefined && this.requests + 1 > maxRequests) {
+      throw new BudgetExhaustedError(`Run budget exhausted: ${maxRequests} model requests used`);
+    }
+    if (maxTokens !== undefined && this.tokens + promptTokens > maxTokens) {
+      throw new BudgetExhaustedError(`Run budget exhausted: ~${this.tokens} of ${maxTokens} tokens used`);
+    }
+    this.requests++;
+    this.tokens += promptTokens;
+  }
+
+  // Adds the completion size once the response is in.
+  record(completionTokens: number): void {
+    this.tokens += completionTokens;
+  }
+
+  get usage() {
+    return { requests: this.requests, tokens: this.tokens };
+  }
+}
@@ -0,0 +1,91 @@
+// src/analysis/impactScore.ts
+
+import { z } from 'zod';
+import { Priority, StoredInsight } from '../schemas';
+import { Topic } from './topics';
+
+// --- Impact score: the model's priority blended with how much the community cares ---
+// Every signal is scaled to 0..1 (engagement on a log scale, saturating at a "clearly popular"
+// level), then combined as a weighted mean and reported as 0..100.
+
+export const ImpactWeightsSchema = z.object({
+    priority: z.number().min(0).describe("The model's low/medium/high judgment"),
+    votes: z.number().min(0).describe('Net votes (Stack Overflow score)'),
+    views: z.number().min(0),
+    reactions: z.number().min(0).describe('GitHub reactions'),
+    comments: z.number().min(0).describe('Comments and answers'),
+    duplicates: z.number().min(0).describe('Other insights in the same topic'),
+    recency: z.number().min(0).describe('Recent activity; decays with a 90-day half-life'),
+});
+
+export type ImpactWeights = z.infer<typeof ImpactWeightsSchema>;
+
+export const DEFAULT_IMPACT_WEIGHTS: ImpactWeights = {
+    priority: 4,
+    votes: 1,
+    views: 1,
+    reactions: 1,
+    comments: 1,
+    duplicates: 2,
+    recency: 1,
+};
+
+// IMPACT_WEIGHTS is a JSON object overriding some of the defaults, e.g. {"priority":2,"duplicates":4}.
+export function impactWeightsFromEnv(value = process.env.IMPACT_WEIGHTS): ImpactWeights {
+    if (!value) {
+        return DEFAULT_IMPACT_WEIGHTS;
+    }
+    let json: unknown;
+    try {
+        json = JSON.parse(value);
+    } catch (error: any) {
+        throw new Error(`IMPACT_WEIGHTS is not valid JSON: ${error.message}`);
+    }
+    const parsed = ImpactWeightsSchema.partial().strict().safeParse(json);
+    if (!parsed.success) {
+        throw new Error(`Invalid IMPACT_WEIGHTS: ${parsed.error.issues.map(issue => [issue.path.join('.'), issue.message].filter(Boolean).join(' ')).join('; ')}`);
+    }
+    return { ...DEFAULT_IMPACT_WEIGHTS, ...parsed.data };
+}
+
+const PRIORITY_SIGNAL: Record<Priority, number> = { low: 0, medium: 0.5, high: 1 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENCY_HALF_LIFE_DAYS = 90;
+
+// log-scaled so the first few votes matter more than the hundredth; `saturation` maps to 1
+const logScale = (value: number | undefined, saturation: number) =>
+    Math.min(1, Math.log1p(Math.max(0, value ?? 0)) / Math.log1p(saturation));
+
+export function impactScore(insight: StoredInsight, duplicates: number, weights: ImpactWeights, now = Date.now()): number {
+    const a = insight.analysis;
+    if ('error' in a) {
+        return 0;
+    }
+    const m = insight.metadata ?? {};
+    const lastActivity = Date.parse(m.lastActivityAt ?? insight.updatedAt);
+    const signals: Record<keyof ImpactWeights, number> = {
+        priority: PRIORITY_SIGNAL[a.priority],
+        votes: logScale(m.score, 100),
+        views: logScale(m.viewCount, 50000),
+        reactions: logScale(m.reactionCount, 50),
+        comments: logScale((m.commentCount ?? 0) + (m.answerCount ?? 0), 30),
+        duplicates: logScale(duplicates, 20),
+        recency: Math.pow(0.5, Math.max(0, now - lastActivity) / DAY_MS / RECENCY_HALF_LIFE_DAYS),
+    };
+    const keys = Object.keys(signals) as (keyof ImpactWeights)[];
+    const totalWeight = keys.reduce((sum, key) => sum + weights[key], 0);
+    if (!totalWeight) {
+        return 0;
+    }
+    return Math.round(100 * keys.reduce((sum, key) => sum + weights[key] * signals[key], 0) / totalWeight);
+}
+
+export type RankedInsight = StoredInsight & { impact: number };
+
+// Highest impact first; ties go to the most recently ingested insight.
+export function rankByImpact(insights: StoredInsight[], topics: Topic[], weights: ImpactWeights, now = Date.now()): RankedInsight[] {
+    const topicSize = new Map(topics.flatMap(topic => topic.memberIds.map(id => [id, topic.memberCount] as const)));
+    return insights
+        .map(insight => ({ ...insight, impact: impactScore(insight, Math.max(0, (topicSize.get(insight.originalId) ?? 1) - 1), weights, now) }))
+        .sort((a, b) => b.impact - a.impact || b.updatedAt.localeCompare(a.updatedAt));
+}
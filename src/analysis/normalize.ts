@@ -0,0 +1,135 @@
+// src/analysis/normalize.ts
+
+import { NormalizedContent } from '../schemas';
+import { estimateTokens } from './budget';
+
+// --- Turns raw source bodies (Stack Exchange HTML, GitHub Markdown) into plain text for the model ---
+// Code blocks and stack traces are pulled out into their own fields, so the prose stays readable and
+// the model only sees a short excerpt of them; the whole input is then cut to a token budget.
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+            const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+        }
+        return ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+// Lines GitHub issue templates leave behind when the reporter doesn't fill them in
+const BOILERPLATE_LINES = [
+    /^\s*[-*]\s*\[[ x]\]\s+/i,                           // checklists ("- [x] I searched existing issues")
+    /^\s*_?no response_?\s*$/i,                         // empty issue-form fields
+    /^\s*\[?(enter|describe|add|type) [^\]]* here\]?\.?\s*$/i,  // placeholder text
+];
+
+const HEADING = /^\s*#{1,6}\s/;
+const HTML_TAG = /<\/?(p|div|span|a|b|i|u|em|strong|code|pre|ul|ol|li|h[1-6]|blockquote|br|hr|img|table|thead|tbody|tr|td|th|sup|sub|kbd|del|s|details|summary)\b[^>]*>/gi;
+
+// Stack frames need a real frame shape, so prose lines that merely start with "at" stay in the text
+const STACK_FRAMES = [
+    /^\s*at\s+(?:.*[\s(])?\S*[a-z]\S*:\d+(?::\d+)?\)?\s*$/i,                        // JS/Java: "at fn (file.js:1:2)", "at Foo.bar(Foo.java:42)"
+    /^\s*at\s+.*:line\s+\d+\s*$/,                                                  // .NET: "at Ns.Type.Method() in File.cs:line 42"
+    /^\s*at\s+(?:async\s+|new\s+)?[\w$<>`]+(?:\.[\w$<>`[\],/]+)+\s?\(.*\)\s*$/,    // qualified methods without a location
+    /^\s*at\s+.*\((?:<anonymous>|native|Native Method|Unknown Source)\)\s*$/,       // "at new Promise (<anonymous>)"
+    /^\s*File\s+".+",\s+line\s+\d+.*$/,                                             // Python: 'File "x.py", line 3, in main'
+    /^\s*Traceback \(most recent call last\):\s*$/,
+];
+const isStackFrame = (line: string) => STACK_FRAMES.some(pattern => pattern.test(line));
+
+const MODEL_EXCERPT_LINES = { stackTrace: 15, code: 40 };
+
+export interface NormalizeOptions {
+    /** Estimated token budget for the text sent to the model. */
+    maxTokens: number;
+}
+
+function htmlToText(html: string): string {
+    return decodeEntities(html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|li|h[1-6]|blockquote|tr)>/gi, '\n')
+        .replace(/<li\b[^>]*>/gi, '- ')
+        .replace(HTML_TAG, ''));
+}
+
+// Template headings whose section was left empty ("### Screenshots" followed by the next heading)
+function dropEmptySections(lines: string[]): string[] {
+    return lines.filter((line, i) => {
+        if (!HEADING.test(line)) return true;
+        const next = lines.slice(i + 1).find(candidate => candidate.trim());
+        return next !== undefined && !HEADING.test(next);
+    });
+}
+
+// Moves consecutive stack frames (with the line that introduced them, usually the error message) out of `lines`.
+function extractStackTraces(lines: string[]): { prose: string[]; stackTraces: string[] } {
+    const prose: string[] = [];
+    const stackTraces: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        if (!isStackFrame(lines[i])) {
+            prose.push(lines[i]);
+            continue;
+        }
+        let end = i;
+        while (end + 1 < lines.length && (isStackFrame(lines[end + 1]) || /^\s{2,}\S/.test(lines[end + 1]))) {
+            end++;
+        }
+        const header = prose.length && prose[prose.length - 1].trim() ? [prose.pop()!] : [];
+        stackTraces.push([...header, ...lines.slice(i, end + 1)].join('\n').trim());
+        i = end;
+    }
+    return { prose, stackTraces };
+}
+
+export function normalizeFeedbackText(raw: string, options: NormalizeOptions): NormalizedContent {
+    const codeBlocks: string[] = [];
+    const keepCode = (code: string) => {
+        const trimmed = code.replace(/^\n+|\s+$/g, '');
+        if (trimmed) {
+            codeBlocks.push(trimmed);
+        }
+        return '\n';
+    };
+
+    const withoutCode = raw
+        .replace(/\r\n?/g, '\n')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/^ {0,3}(`{3,}|~{3,})[^\n]*\n([\s\S]*?)^ {0,3}\1[ \t]*$/gm, (_match, _fence, code: string) => keepCode(code))
+        .replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_match, code: string) => keepCode(decodeEntities(code.replace(HTML_TAG, ''))))
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/<img[^>]*>/gi, '');
+
+    const lines = htmlToText(withoutCode)
+        .split('\n')
+        .filter(line => !BOILERPLATE_LINES.some(pattern => pattern.test(line)));
+    const { prose, stackTraces } = extractStackTraces(dropEmptySections(lines));
+
+    const text = prose.join('\n').replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    const maxChars = options.maxTokens * 4;
+    const truncated = text.length > maxChars;
+    return {
+        text: truncated ? `${text.slice(0, maxChars).replace(/\s+\S*$/, '')}…` : text,
+        codeBlocks,
+        stackTraces,
+        truncated,
+    };
+}
+
+// The prose plus the start of the first stack trace and code block, as far as the budget allows
+export function modelInputFor(content: NormalizedContent, options: NormalizeOptions): string {
+    const excerpt = (block: string, lines: number) => block.split('\n').slice(0, lines).join('\n');
+    let input = content.text;
+    for (const [title, block] of [
+        ['Stack trace (excerpt)', content.stackTraces[0] && excerpt(content.stackTraces[0], MODEL_EXCERPT_LINES.stackTrace)],
+        ['Code (excerpt)', content.codeBlocks[0] && excerpt(content.codeBlocks[0], MODEL_EXCERPT_LINES.code)],
+    ] as const) {
+        const section = block ? `\n\n${title}:\n${block}` : '';
+        if (section && estimateTokens(input + section) <= options.maxTokens) {
+            input += section;
+        }
+    }
+    return input;
+}
@@ -0,0 +1,75 @@
+// src/analysis/retry.ts
+
+import { sleep } from '../utils/sleep';
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Shared by all workers of a run: once the service says "slow down", nobody sends until `resumeAt`.
+export interface ThrottleGate {
+  resumeAt: number;
+}
+
+// Throttling, timeouts and server-side failures are worth another try; bad requests/auth are not.
+export function isRetryableError(err: any): boolean {
+  const status = err?.status;
+  if (typeof status !== 'number') {
+    // No HTTP status: connection reset, DNS hiccup, SDK timeout...
+    return err?.name === 'APIConnectionError' || err?.name === 'APIConnectionTimeoutError' || ['ECONNRESET', 'ETIMEDOUT'].includes(err?.code);
+  }
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+// Reads `retry-after-ms` / `retry-after` (seconds or an HTTP date) from the error's response headers.
+export function retryAfterMs(err: any): number | undefined {
+  const headers = err?.headers;
+  const header = (name: string): string | undefined =>
+    typeof headers?.get === 'function' ? headers.get(name) ?? undefined : headers?.[name];
+
+  const ms = Number(header('retry-after-ms'));
+  if (ms > 0) {
+    return ms;
+  }
+  const retryAfter = header('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter, unless the service told us exactly how long to wait.
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions,
+  gate: ThrottleGate = { resumeAt: 0 },
+  label = 'request'
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const wait = gate.resumeAt - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+    }
+    try {
+      return await fn();
+    } catch (err: any) {
+      if (attempt >= options.maxAttempts || !isRetryableError(err)) {
+        throw err;
+      }
+      const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+      const delay = retryAfterMs(err) ?? backoff / 2 + Math.random() * (backoff / 2);
+      if (err?.status === 429) {
+        gate.resumeAt = Math.max(gate.resumeAt, Date.now() + delay);
+      }
+      console.warn(`Retrying ${label} in ${Math.round(delay)}ms (attempt ${attempt + 1}/${options.maxAttempts}): ${err?.message || err}`);
+      await sleep(delay);
+    }
+  }
+}
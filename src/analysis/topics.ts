@@ -0,0 +1,173 @@
+// src/analysis/topics.ts
+
+import { createHash } from 'crypto';
+import { AnalysisResult, Priority } from '../schemas';
+import { EmbeddingModel } from '../models/embeddings';
+import { StoredTopic, TopicStore } from '../store/topicStore';
+
+// --- Groups similar pain points across insights into ranked topics ---
+// Pain points are compared by embedding, against each topic's centroid. Assignments are kept in a TopicStore,
+// so existing topics keep their ID and members as the corpus grows: after an ingestion only pain points that
+// have no topic yet are embedded, and each joins the closest topic if it is close enough or starts a new one.
+
+export interface Topic {
+    /** Assigned when the topic is created and kept from then on. */
+    id: string;
+    /** The member pain point closest to the topic's centroid (when it joined). */
+    label: string;
+    keywords: string[];
+    /** Distinct insights with at least one pain point in the topic. */
+    memberCount: number;
+    memberIds: string[];
+    /** Insights whose pain points are most typical of the topic, best first. */
+    representativeIds: string[];
+    /** Mean priority of the members, rounded. */
+    priority: Priority;
+    priorityCounts: Record<Priority, number>;
+}
+
+export interface TopicOptions {
+    /** Minimum cosine similarity of embeddings for a pain point to join an existing topic. */
+    similarityThreshold: number;
+    /** Topics with fewer distinct insights are left out. */
+    minMembers: number;
+    maxTopics: number;
+}
+
+export const DEFAULT_TOPIC_OPTIONS: TopicOptions = { similarityThreshold: 0.5, minMembers: 2, maxTopics: 50 };
+
+interface PainPoint {
+    key: string;
+    insightId: string;
+    priority: Priority;
+    text: string;
+}
+
+const EMBED_BATCH_SIZE = 16;
+
+const STOPWORDS = new Set((
+    'the and for with when from that this have has are was were not but can cannot could would should ' +
+    'how what why does doesn did didn into onto using use used get gets getting got any all our your ' +
+    'their there them they its also only just still been being some more than then after before while ' +
+    'about which where who will able unable issue issues problem problems error errors teams app apps'
+).split(' '));
+
+const PRIORITY_WEIGHT: Record<Priority, number> = { low: 1, medium: 2, high: 3 };
+
+export function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+        .filter(word => word.length > 2 && !STOPWORDS.has(word))
+        // Fold simple plurals ("tokens" -> "token") without mangling words like "access"
+        .map(word => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+function cosine(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// A pain point is identified by its insight and its text, so re-analyzing an item keeps the topics of unchanged pain points
+export function painPointKey(insightId: string, text: string): string {
+    return `${insightId}#${createHash('sha256').update(text).digest('hex').slice(0, 12)}`;
+}
+
+function painPointsOf(insights: AnalysisResult[]): PainPoint[] {
+    const points = insights.flatMap(insight => {
+        const a = insight.analysis;
+        if ('error' in a) return [];
+        return a.painPoints
+            .filter(text => tokenize(text).length)
+            .map(text => ({ key: painPointKey(insight.originalId, text), insightId: insight.originalId, priority: a.priority, text }));
+    });
+    return [...new Map(points.map(point => [point.key, point])).values()];
+}
+
+// Embeds the pain points of `insights` that have no topic yet and assigns them; returns how many were assigned.
+// `insights` must be the whole store: pain points missing from it are dropped from their topics.
+export async function assignTopics(
+    insights: AnalysisResult[],
+    store: TopicStore,
+    model: EmbeddingModel,
+    options: TopicOptions = DEFAULT_TOPIC_OPTIONS
+): Promise<number> {
+    store.prepare(model.id, options.similarityThreshold);
+    const points = painPointsOf(insights);
+    store.prune(new Set(points.map(point => point.key)));
+    const pending = points.filter(point => !store.assignment(point.key));
+
+    for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+        const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+        const vectors = await model.embed(batch.map(point => point.text));
+        batch.forEach((point, j) => {
+            const vector = vectors[j];
+            let best: StoredTopic | undefined;
+            let bestScore = options.similarityThreshold;
+            for (const topic of store.topics()) {
+                const score = cosine(vector, topic.centroid);
+                if (score >= bestScore) {
+                    best = topic;
+                    bestScore = score;
+                }
+            }
+            const topic = best ?? store.createTopic(vector);
+            // Running mean; 4 decimals keep the file small, as in the vector index
+            topic.centroid = topic.centroid.map((c, d) => Math.round(((c * topic.size + vector[d]) / (topic.size + 1)) * 1e4) / 1e4);
+            topic.size++;
+            store.assign(point.key, { topicId: topic.id, score: Math.round(cosine(vector, topic.centroid) * 1e4) / 1e4 });
+        });
+    }
+    store.save();
+    return pending.length;
+}
+
+// The topics of `insights` (the whole store or a filtered part of it), from the assignments made by assignTopics.
+// Pain points without a topic yet are left out.
+export function topicsFor(insights: AnalysisResult[], store: TopicStore, options: TopicOptions = DEFAULT_TOPIC_OPTIONS): Topic[] {
+    const members = new Map<string, { point: PainPoint; score: number }[]>();
+    for (const point of painPointsOf(insights)) {
+        const assignment = store.assignment(point.key);
+        if (assignment) {
+            members.set(assignment.topicId, [...(members.get(assignment.topicId) ?? []), { point, score: assignment.score }]);
+        }
+    }
+
+    const topics = [...members].map(([id, points]) => {
+        const ranked = [...points].sort((a, b) => b.score - a.score);
+        const memberIds = [...new Set(ranked.map(({ point }) => point.insightId))];
+        // One priority per member insight, however many of its pain points landed here
+        const memberPriorities = new Map(points.map(({ point }) => [point.insightId, point.priority]));
+        const priorityCounts: Record<Priority, number> = { low: 0, medium: 0, high: 0 };
+        for (const priority of memberPriorities.values()) {
+            priorityCounts[priority]++;
+        }
+        const meanWeight = [...memberPriorities.values()].reduce((sum, p) => sum + PRIORITY_WEIGHT[p], 0) / memberPriorities.size;
+        // The words most member pain points share
+        const termCounts = new Map<string, number>();
+        for (const { point } of points) {
+            for (const term of new Set(tokenize(point.text))) {
+                termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+            }
+        }
+        const keywords = [...termCounts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, 5).map(([term]) => term);
+        return {
+            id,
+            label: ranked[0].point.text,
+            keywords,
+            memberCount: memberIds.length,
+            memberIds,
+            representativeIds: memberIds.slice(0, 3),
+            priority: (Object.keys(PRIORITY_WEIGHT) as Priority[]).find(p => PRIORITY_WEIGHT[p] === Math.round(meanWeight))!,
+            priorityCounts,
+        };
+    });
+
+    return topics
+        .filter(topic => topic.memberCount >= options.minMembers)
+        .sort((a, b) => b.memberCount - a.memberCount || PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority])
+        .slice(0, options.maxTopics);
+}
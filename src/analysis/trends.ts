@@ -0,0 +1,100 @@
+// src/analysis/trends.ts
+
+import { StoredInsight } from '../schemas';
+import { IngestionSnapshot } from '../store/snapshotStore';
+import { isNewlyAnalyzed } from '../store/insightStore';
+import { Topic } from './topics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Records what a run added: `ingested` is what the store returned from upsert.
+// Topics are not recorded here; their counts come from the stored topic assignments (see computeTrends).
+export function buildSnapshot(ingested: StoredInsight[], takenAt = new Date().toISOString()): IngestionSnapshot {
+    const added = ingested.filter(isNewlyAnalyzed);
+    const byCategory: IngestionSnapshot['byCategory'] = {};
+    for (const insight of added) {
+        const a = insight.analysis;
+        if (!('error' in a) && a.category) {
+            byCategory[a.category] = (byCategory[a.category] ?? 0) + 1;
+        }
+    }
+    return { takenAt, newInsights: added.length, updatedInsights: ingested.length - added.length, byCategory };
+}
+
+export interface TrendEntry {
+    key: string;
+    label: string;
+    /** New insights in the current window */
+    current: number;
+    /** New insights in the window before it */
+    previous: number;
+    delta: number;
+}
+
+export interface TrendReport {
+    windowDays: number;
+    currentTotal: number;
+    previousTotal: number;
+    /** False when the oldest snapshot is newer than the previous window's start, so `previous` undercounts. */
+    fullHistory: boolean;
+    topics: TrendEntry[];
+    categories: TrendEntry[];
+}
+
+// Compares the last `windowDays` with the `windowDays` before them; entries are sorted by delta, biggest risers first.
+// Totals and categories come from the snapshots. Topic counts come from `topics` (current, with persisted IDs):
+// each member insight counts in the window in which it was first analyzed.
+export function computeTrends(
+    snapshots: IngestionSnapshot[],
+    insights: StoredInsight[],
+    topics: Topic[],
+    windowDays: number,
+    now = Date.now()
+): TrendReport {
+    const currentStart = now - windowDays * DAY_MS;
+    const previousStart = currentStart - windowDays * DAY_MS;
+    const inWindow = (from: number, to: number) =>
+        snapshots.filter(s => Date.parse(s.takenAt) >= from && Date.parse(s.takenAt) < to);
+    const current = inWindow(currentStart, now + 1);
+    const previous = inWindow(previousStart, currentStart);
+
+    const compare = (inCurrent: Map<string, number>, inPrevious: Map<string, number>, labels: Map<string, string>): TrendEntry[] =>
+        [...new Set([...inCurrent.keys(), ...inPrevious.keys()])]
+            .map(key => {
+                const entry = { key, label: labels.get(key) ?? key, current: inCurrent.get(key) ?? 0, previous: inPrevious.get(key) ?? 0 };
+                return { ...entry, delta: entry.current - entry.previous };
+            })
+            .sort((a, b) => b.delta - a.delta || b.current - a.current);
+
+    const categoryCounts = (window: IngestionSnapshot[]) => {
+        const totals = new Map<string, number>();
+        for (const snapshot of window) {
+            for (const [key, count] of Object.entries(snapshot.byCategory)) {
+                totals.set(key, (totals.get(key) ?? 0) + count);
+            }
+        }
+        return totals;
+    };
+
+    // Insights analyzed before firstAnalyzedAt was recorded were analyzed when first seen
+    const analyzedAt = new Map(insights.map(insight => [insight.originalId, Date.parse(insight.firstAnalyzedAt ?? insight.firstSeenAt)]));
+    const topicCounts = (from: number, to: number) => new Map(topics
+        .map(topic => [topic.id, topic.memberIds.filter(id => {
+            const at = analyzedAt.get(id);
+            return at !== undefined && at >= from && at < to;
+        }).length] as const)
+        .filter(([, count]) => count > 0));
+
+    return {
+        windowDays,
+        currentTotal: current.reduce((sum, s) => sum + s.newInsights, 0),
+        previousTotal: previous.reduce((sum, s) => sum + s.newInsights, 0),
+        fullHistory: snapshots.some(s => Date.parse(s.takenAt) <= previousStart),
+        topics: compare(
+            topicCounts(currentStart, now + 1),
+            topicCounts(previousStart, currentStart),
+            new Map(topics.map(topic => [topic.id, topic.label]))
+        ),
+        categories: compare(categoryCounts(current), categoryCounts(previous), new Map()),
+    };
+}
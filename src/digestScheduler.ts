@@ -0,0 +1,156 @@
+// src/digestScheduler.ts
+
+import { DigestFrequency, DigestSchedule, DigestStore } from './store/digestStore';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DEFAULT_TIME = '09:00';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A failed delivery (e.g. Teams unreachable) is retried this much later instead of waiting a whole period
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+
+export interface DigestTiming {
+    frequency: DigestFrequency;
+    time: string;
+    weekday?: number;
+    timezone: string;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Wall-clock date and time of `date` in `timezone`
+function zonedParts(date: Date, timezone: string) {
+    const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric',
+    }).formatToParts(date).map(part => [part.type, Number(part.value)]));
+    return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+// How far `timezone` is ahead of UTC at `time`
+function offsetAt(time: number, timezone: string): number {
+    const p = zonedParts(new Date(time), timezone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - Math.floor(time / 60000) * 60000;
+}
+
+// The instant a wall-clock time occurs in `timezone`; the offset is re-read once so DST changes land right
+function zonedTime(year: number, month: number, day: number, hour: number, minute: number, timezone: string): number {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    const guess = wallClock - offsetAt(wallClock, timezone);
+    return wallClock - offsetAt(guess, timezone);
+}
+
+// --- The first scheduled time strictly after `after` ---
+export function nextDigestRun(timing: DigestTiming, after: Date): Date {
+    const [hour, minute] = timing.time.split(':').map(Number);
+    const today = zonedParts(after, timing.timezone);
+    for (let i = 0; i <= 8; i++) {
+        const date = new Date(Date.UTC(today.year, today.month - 1, today.day + i));
+        if (timing.frequency === 'weekly' && date.getUTCDay() !== timing.weekday) continue;
+        const run = zonedTime(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hour, minute, timing.timezone);
+        if (run > after.getTime()) {
+            return new Date(run);
+        }
+    }
+    // Unreachable for valid timings; fall back to a plain period so a bad value can't stop the scheduler
+    return new Date(after.getTime() + (timing.frequency === 'weekly' ? 7 : 1) * DAY_MS);
+}
+
+// `/digest daily|weekly [time] [day] [filters]`, e.g. `weekly 9:30 mon area:auth` or `daily 17:00 priority:high`.
+// A bare one- or two-digit number is an hour (`weekly 9 mon`). Anything that isn't the frequency, a time or a
+// weekday is left in `query` for parseInsightQuery.
+export function parseDigestArgs(args: string): { timing?: Omit<DigestTiming, 'timezone'>; query: string; errors: string[] } {
+    const [first, ...rest] = args.trim().split(/\s+/).filter(Boolean);
+    const frequency = first?.toLowerCase();
+    if (frequency !== 'daily' && frequency !== 'weekly') {
+        return { query: '', errors: ['Please choose `daily` or `weekly`, e.g. `/digest weekly 9:00 mon area:auth`.'] };
+    }
+    let time = DEFAULT_TIME;
+    let weekday: number | undefined;
+    const errors: string[] = [];
+    const words: string[] = [];
+    for (const token of rest) {
+        const clock = token.toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?(am|pm)?$/);
+        // "mon" or "monday", but not keywords like "monitoring"
+        const day = WEEKDAYS.findIndex(name => [name.slice(0, 3), name].map(n => n.toLowerCase()).includes(token.toLowerCase()));
+        if (clock) {
+            let h = Number(clock[1]) % (clock[3] ? 12 : 24);
+            if (clock[3] === 'pm') h += 12;
+            const m = Number(clock[2] ?? 0);
+            if (Number(clock[1]) > (clock[3] ? 12 : 23) || m > 59) {
+                errors.push(`"${token}" is not a valid time. Use e.g. \`9\`, \`9:00\`, \`17:30\` or \`9am\`.`);
+            }
+            time = `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+        } else if (day >= 0) {
+            if (frequency !== 'weekly') {
+                errors.push(`A day (${token}) only applies to weekly digests.`);
+            }
+            weekday = day;
+        } else {
+            words.push(token);
+        }
+    }
+    return { timing: { frequency, time, weekday: frequency === 'weekly' ? weekday ?? 1 : undefined }, query: words.join(' '), errors };
+}
+
+export function describeTiming(timing: DigestTiming): string {
+    const day = timing.weekday === undefined ? '' : ` on ${WEEKDAYS[timing.weekday]}s`;
+    return `${timing.frequency}${day} at ${timing.time} (${timing.timezone})`;
+}
+
+// Posts one digest covering insights first analyzed in [since, until).
+export type DigestDelivery = (schedule: DigestSchedule, since: Date, until: Date) => Promise<void>;
+
+// --- Checks persisted schedules on a timer and delivers the ones that are due ---
+// Digests missed while the bot was down go out once on the next check after startup, covering the whole gap.
+export class DigestScheduler {
+    private timer?: NodeJS.Timeout;
+    private running = false;
+
+    constructor(
+        private readonly store: DigestStore,
+        private readonly deliver: DigestDelivery,
+        private readonly checkIntervalMs = 60 * 1000
+    ) {}
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => void this.runDue(), this.checkIntervalMs);
+        this.timer.unref();
+        void this.runDue();
+    }
+
+    stop(): void {
+        clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    async runDue(now = new Date()): Promise<void> {
+        // A slow delivery must not overlap with the next check
+        if (this.running) return;
+        this.running = true;
+        try {
+            for (const schedule of this.store.list().filter(s => Date.parse(s.nextRunAt) <= now.getTime())) {
+                // The first digest looks back one period
+                const period = (schedule.frequency === 'weekly' ? 7 : 1) * DAY_MS;
+                const since = new Date(schedule.lastSentAt ?? now.getTime() - period);
+                try {
+                    await this.deliver(schedule, since, now);
+                    this.store.update(schedule.id, { lastSentAt: now.toISOString(), nextRunAt: nextDigestRun(schedule, now).toISOString() });
+                } catch (error: any) {
+                    console.error(`Digest ${schedule.id} failed; retrying in ${RETRY_DELAY_MS / 60000} minutes:`, error.message || error);
+                    this.store.update(schedule.id, { nextRunAt: new Date(now.getTime() + RETRY_DELAY_MS).toISOString() });
+                }
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+}
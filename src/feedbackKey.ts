@@ -0,0 +1,40 @@
+// src/feedbackKey.ts
+
+import { z } from 'zod';
+
+// --- Stable identity of a feedback item across sources ---
+// Stack Overflow question IDs and GitHub issue numbers come from unrelated number spaces, so an item
+// is identified by the connector that produced it, the site/repo the ID is unique within, and the ID.
+export const FeedbackKeySchema = z.object({
+    source: z.string().regex(/^[^:]+$/).describe('Connector name, e.g. stackoverflow or github'),
+    scope: z.string().optional().describe('Site or repository the ID is unique within, e.g. MicrosoftDocs/msteams-docs'),
+    externalId: z.string().regex(/^[^:]+$/).describe('ID of the item in the source system')
+});
+
+export type FeedbackKey = z.infer<typeof FeedbackKeySchema>;
+
+// "github:MicrosoftDocs/msteams-docs:1234", or "<source>:<externalId>" for unscoped sources
+export function formatFeedbackKey({ source, scope, externalId }: FeedbackKey): string {
+    return scope ? `${source}:${scope}:${externalId}` : `${source}:${externalId}`;
+}
+
+export function parseFeedbackKey(id: string): FeedbackKey | undefined {
+    const first = id.indexOf(':');
+    const last = id.lastIndexOf(':');
+    if (first <= 0 || last === id.length - 1) {
+        return undefined;
+    }
+    const source = id.slice(0, first);
+    const externalId = id.slice(last + 1);
+    return first === last ? { source, externalId } : { source, scope: id.slice(first + 1, last), externalId };
+}
+
+// Keys are compared case-insensitively so `/search_insights GitHub:microsoftdocs/...` still resolves
+export function sameFeedbackKey(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+export const FeedbackIdSchema = z.string().refine(
+    id => parseFeedbackKey(id) !== undefined,
+    'Expected a composite key "<source>[:<scope>]:<externalId>"'
+);
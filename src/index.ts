@@ -4,21 +4,54 @@ import * as dotenv from 'dotenv';
 dotenv.config(); // Load environment variables from .env file
 
 import express from 'express';
+import { timingSafeEqual } from 'crypto';
 import bodyParser from 'body-parser'; // For parsing request bodies
 
 // Teams AI App core imports
 import { App } from '@microsoft/teams.apps';
+import { ActivityLike, ConversationReference, toActivityParams } from '@microsoft/teams.api';
 //import App  from '@microsoft/teams.ai'; // <--- FIXED: Import App as default export
 import { AI } from '@microsoft/teams-ai'; // <--- FIXED: Import AI directly
 import { DevtoolsPlugin } from '@microsoft/teams.dev';
 
 // MCP Plugin (Still instantiate it for its tool definition, but not for hosting its route via App)
 import { McpPlugin } from '@microsoft/teams.mcp';
-import { z } from 'zod'; // For schema validation
+import {
+    AnalyzeFeedbackInputSchema,
+    AnalyzeFeedbackOutputSchema,
+    AnalysisResult,
+    RETRYABLE_FAILURE_REASONS,
+    StoredInsight,
+    Triage,
+    TriageStatusSchema
+} from './schemas';
+import { applyTriage, describeTriage, parseTriageStatus, TriageChange, triageLog, triageOf, TRIAGE_STATUS_LABELS } from './triage';
+import { sameFeedbackKey } from './feedbackKey';
+import { InsightFilter, matchesKeyword, parseInsightQuery } from './insightQuery';
+import { createInsightStore, isNewlyAnalyzed } from './store/insightStore';
+import { createRawFeedbackStore } from './store/rawFeedbackStore';
+import { createSubscriptionStore, Subscription, subscriptionMatches } from './store/subscriptionStore';
+import { createDigestStore, DigestSchedule } from './store/digestStore';
+import { createTopicStore } from './store/topicStore';
+import { DigestScheduler, describeTiming, isValidTimezone, nextDigestRun, parseDigestArgs } from './digestScheduler';
+import { createRedactor } from './redaction';
+import { askInsightAgent } from './agent/insightAgent';
+import { answerFromInsights, Citation, DEFAULT_ASK_OPTIONS } from './agent/askInsights';
+import { Digest, writeDigest } from './agent/digest';
+import { createEmbeddingModel, LocalHashEmbeddingModel } from './models/embeddings';
+import { createVectorIndex } from './retrieval/vectorIndex';
+import { DEFAULT_HYBRID_OPTIONS, HybridSearchOptions, hybridSearch } from './retrieval/hybridSearch';
+import { IngestJobManager } from './ingestJobs';
+import { analyzeFeedback, AnalysisPipelineOptions } from './analysis/analyzeFeedback';
+import { createAnalysisCache } from './analysis/analysisCache';
+import { assignTopics, DEFAULT_TOPIC_OPTIONS, Topic, TopicOptions, topicsFor } from './analysis/topics';
+import { buildSnapshot, computeTrends, TrendEntry } from './analysis/trends';
+import { impactWeightsFromEnv, rankByImpact, RankedInsight } from './analysis/impactScore';
+import { appendSnapshot, loadSnapshots } from './store/snapshotStore';
 
 // AI Model for analysis
 import { ChatPrompt } from '@microsoft/teams.ai';
-import { OpenAIChatModel } from '@microsoft/teams.openai';
+import { createChatModel } from './models';
 
 // --- Configuration Constants ---
 const TEAMS_BOT_PORT = +(process.env.PORT || 3976); // Main bot port
@@ -28,124 +61,59 @@ const DEVTOOLS_PORT = 3977; // Devtools will always run on this separate port
 // --- Global Data Store for Proactive Messaging (in-memory for this example) ---
 const userToConversationId = new Map<string, string>();
 
-// --- Initialize AI Model for the Analysis Tool ---
-const openaiModel = new OpenAIChatModel({
-  apiKey: process.env.AZURE_OPENAI_API_KEY!,
-  endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
-  apiVersion: process.env.AZURE_OPENAI_API_VERSION!,
-  model: process.env.AZURE_OPENAI_DEPLOYMENT_NAME!,
-});
+// --- Initialize AI Model for the Analysis Tool (Azure OpenAI, OpenAI-compatible or offline mock; see src/models) ---
+const { provider: modelProvider, model: chatModel, modelId } = createChatModel();
+console.log(`Using ${modelProvider} chat model (${modelId}).`);
 
 
 // --- NEW: Initialize AI instance and pass the model to it ---
-const ai = new AI(openaiModel); // <--- FIXED: Use direct AI import
-
-// --- Define Zod Schemas for MCP Tool Input/Output ---
-const FeedbackItemSchema = z.object({
-    id: z.number().describe('Unique ID of the feedback item'),
-    text: z.string().describe('The content of the feedback (title + body)'),
-    source: z.string().describe('Source of the feedback (e.g., Stack Overflow, GitHub Issues)'),
-    url: z.string().url().describe('URL to the original feedback item').optional()
-});
-
-const AnalyzeFeedbackInputSchema = z.object({
-    feedback: z.array(FeedbackItemSchema).describe('An array of developer feedback items to analyze.')
-}).describe('Input for the analyzeFeedback MCP tool.');
-
-const AnalysisObjectSchema = z.object({
-    painPoints: z.array(z.string()).describe('Array of identified pain points.'),
-    summary: z.string().describe('A summary of the feedback.'),
-    priority: z.enum(['low', 'medium', 'high']).describe('Priority of the feedback.')
-});
+const ai = new AI(chatModel); // <--- FIXED: Use direct AI import
 
-const AnalysisErrorSchema = z.object({
-    error: z.string().describe('Error message'),
-    rawOutput: z.any().optional().describe('Raw output from AI if available')
-});
+// --- Analysis pipeline settings (see src/analysis) ---
+const optionalNumber = (value?: string) => (value ? Number(value) : undefined);
+const analysisOptions: AnalysisPipelineOptions = {
+    model: chatModel,
+    modelId,
+    cache: createAnalysisCache(),
+    concurrency: Number(process.env.ANALYSIS_CONCURRENCY || 4),
+    retry: {
+        maxAttempts: Number(process.env.ANALYSIS_MAX_ATTEMPTS || 6),
+        baseDelayMs: 1000,
+        maxDelayMs: 60000,
+    },
+    maxRepairs: Number(process.env.ANALYSIS_MAX_REPAIRS || 2),
+    budget: {
+        maxRequests: optionalNumber(process.env.ANALYSIS_MAX_REQUESTS_PER_RUN),
+        maxTokens: optionalNumber(process.env.ANALYSIS_MAX_TOKENS_PER_RUN),
+    },
+    normalization: {
+        maxTokens: Number(process.env.ANALYSIS_MAX_INPUT_TOKENS || 1500),
+    },
+    redactor: createRedactor(),
+};
 
-const AnalysisResultSchema = z.object({
-    originalId: z.number().describe('Original ID of the feedback item'),
-    originalSource: z.string().describe('Original source of the feedback'),
-    originalUrl: z.string().url().describe('URL to the original feedback item').optional(),
-    analysis: z.union([AnalysisObjectSchema, AnalysisErrorSchema])
-});
+// --- Theme clustering settings (see src/analysis/topics.ts) ---
+const topicOptions: TopicOptions = {
+    similarityThreshold: Number(process.env.TOPIC_SIMILARITY_THRESHOLD || DEFAULT_TOPIC_OPTIONS.similarityThreshold),
+    minMembers: Number(process.env.TOPIC_MIN_MEMBERS || DEFAULT_TOPIC_OPTIONS.minMembers),
+    maxTopics: DEFAULT_TOPIC_OPTIONS.maxTopics,
+};
 
-const AnalyzeFeedbackOutputSchema = z.object({
-    analyzedResults: z.array(AnalysisResultSchema).describe('Array of analyzed feedback results.')
-});
+// --- Impact score weights for ranking insights (see src/analysis/impactScore.ts) ---
+const impactWeights = impactWeightsFromEnv();
 
+// --- Semantic search: embeddings (see src/models/embeddings.ts) and how they blend with keyword matches ---
+const embeddingModel = createEmbeddingModel();
+const hybridOptions: HybridSearchOptions = {
+    keywordWeight: Number(process.env.SEARCH_KEYWORD_WEIGHT || DEFAULT_HYBRID_OPTIONS.keywordWeight),
+    minSimilarity: Number(process.env.SEARCH_MIN_SIMILARITY || DEFAULT_HYBRID_OPTIONS.minSimilarity),
+};
 
 // --- AI-Driven Feedback/Pain Point Extraction Logic (reusable handler) ---
 const analyzeFeedbackToolHandler = async (
     args: { [x: string]: any },
     _extra: any // You can type this as needed
-) => {
-    const feedback = args.feedback;
-    console.log(`AI analysis received ${feedback.length} feedback items.`);
-    const analyzedResults: z.infer<typeof AnalysisResultSchema>[] = [];
-
-    for (const item of feedback) {
-        console.log(`Processing feedback item ID: ${item.id} from ${item.source}`);
-        try {
-            const prompt = new ChatPrompt({
-                instructions: `Analyze the following developer feedback to identify key pain points, recurring issues, and actionable insights.
-                              Output a JSON object with 'painPoints' (array of strings), 'summary' (string), and 'priority' (low, medium, high).
-                              Ensure the output is always a valid JSON string.`,
-                model: openaiModel,
-            });
-
-            const analysisResult = await prompt.send(item.text);
-
-            if (analysisResult.content) {
-                try {
-                    let jsonString = analysisResult.content;
-                    if (jsonString.startsWith('```json')) {
-                        jsonString = jsonString.substring(7);
-                    }
-                    if (jsonString.endsWith('```')) {
-                        jsonString = jsonString.substring(0, jsonString.length - 3);
-                    }
-                    jsonString = jsonString.trim();
-
-                    const parsedAnalysis = JSON.parse(jsonString);
-                    analyzedResults.push({
-                        originalId: item.id,
-                        originalSource: item.source,
-                        originalUrl: item.url,
-                        analysis: parsedAnalysis
-                    });
-                    console.log(`Successfully analyzed item ${item.id}. Priority: ${parsedAnalysis.priority}`);
-                } catch (parseError) {
-                    console.error(`Error parsing AI output for item ${item.id}:`, parseError);
-                    analyzedResults.push({
-                        originalId: item.id,
-                        originalSource: item.source,
-                        originalUrl: item.url,
-                        analysis: { error: "AI output not valid JSON", rawOutput: analysisResult.content }
-                    });
-                }
-            } else {
-                console.warn(`AI returned no content for item ${item.id}.`);
-                analyzedResults.push({
-                    originalId: item.id,
-                    originalSource: item.source,
-                    originalUrl: item.url,
-                    analysis: { error: "No AI content" }
-                });
-            }
-        } catch (aiError: any) {
-            console.error(`AI analysis failed for item ${item.id}:`, aiError.message || aiError);
-            analyzedResults.push({
-                originalId: item.id,
-                originalSource: item.source,
-                originalUrl: item.url,
-                analysis: { error: aiError.message || "AI analysis failed" }
-            });
-        }
-    }
-    console.log(`Completed analysis for ${analyzedResults.length} items.`);
-    return { analyzedResults };
-};
+) => analyzeFeedback(args.feedback, analysisOptions);
 
 // --- Instantiate McpPlugin for tool definition (used by bot's `invoke`) ---
 const mcpServerPlugin = new McpPlugin({
@@ -168,10 +136,95 @@ const mcpExpressApp = express();
 mcpExpressApp.use(bodyParser.json({ limit: '50mb' })); // Explicitly set limit for this app
 mcpExpressApp.use(bodyParser.urlencoded({ limit: '50mb', extended: true }));
 
-// --- Store latest analysis results and user state ---
-let latestAnalysis: any[] = [];
+// --- Insight store (persistent unless INSIGHT_STORE=memory) and per-conversation browsing state ---
+const insightStore = createInsightStore();
+// Unredacted originals; see src/store/rawFeedbackStore.ts
+const rawFeedbackStore = createRawFeedbackStore();
+// Embeddings of every insight, for /search_insights and /ask
+const vectorIndex = createVectorIndex(embeddingModel);
+// Which topic each pain point belongs to; pain points are compared with the offline embedder when EMBEDDING_PROVIDER=off
+const topicStore = createTopicStore();
+const topicEmbeddingModel = embeddingModel ?? new LocalHashEmbeddingModel();
+
+// Embeds new and changed insights. Search still works (by keyword) for anything not embedded yet.
+async function refreshVectorIndex(): Promise<void> {
+    if (!vectorIndex) return;
+    try {
+        const embedded = await vectorIndex.index(await insightStore.list());
+        if (embedded) {
+            console.log(`Embedded ${embedded} insights with ${vectorIndex.model.id} (${vectorIndex.size} indexed).`);
+        }
+    } catch (error: any) {
+        console.error('Updating the vector index failed:', error.message || error);
+    }
+}
+// `/subscribe` queries with the conversations to alert
+const subscriptionStore = createSubscriptionStore();
+// `/digest` schedules, delivered by the digest scheduler once the bot has started
+const digestStore = createDigestStore();
 const userToInsightIndex = new Map<string, number>();
-const userToSearchResults = new Map<string, { matches: any[], idx: number }>();
+const userToSearchResults = new Map<string, { query: string, matches: RankedInsight[], idx: number }>();
+
+// --- Topics over the whole store; new pain points are assigned after each ingestion (and on first use after a restart) ---
+let latestTopics: Topic[] | undefined;
+async function refreshTopics(): Promise<Topic[]> {
+    const insights = await insightStore.list();
+    try {
+        const assigned = await assignTopics(insights, topicStore, topicEmbeddingModel, topicOptions);
+        if (assigned) {
+            console.log(`Assigned ${assigned} new pain points to topics with ${topicEmbeddingModel.id}.`);
+        }
+    } catch (error: any) {
+        // Already assigned pain points keep their topics; the rest are retried on the next refresh
+        console.error('Assigning topics failed:', error.message || error);
+    }
+    latestTopics = topicsFor(insights, topicStore, topicOptions);
+    return latestTopics;
+}
+
+// Browsing and search show the highest-impact insights first; duplicates are counted per topic
+async function rankedInsights(filter?: InsightFilter): Promise<RankedInsight[]> {
+    return rankByImpact(await insightStore.list(filter), latestTopics ?? await refreshTopics(), impactWeights);
+}
+
+// `/search_insights` results. An exact item key (e.g. `github:MicrosoftDocs/msteams-docs:1234`) looks that item up
+// directly; keywords are ranked by relevance (keywords + embeddings), facet-only searches by impact
+async function searchInsights(query: string): Promise<{ matches: RankedInsight[]; errors: string[] }> {
+    const { keyword, filter, errors } = parseInsightQuery(query);
+    if (errors.length) {
+        return { matches: [], errors };
+    }
+    const candidates = await rankedInsights(filter);
+    const exact = candidates.filter(r => sameFeedbackKey(r.originalId, query));
+    const matches = exact.length ? exact
+        : keyword ? await hybridSearch(keyword, candidates, vectorIndex, hybridOptions)
+        : candidates;
+    return { matches, errors: [] };
+}
+
+// --- Ingestion runs as background jobs so large batches don't hold the HTTP request open ---
+const ingestJobs = new IngestJobManager(async (feedback, onItemAnalyzed) => {
+    rawFeedbackStore?.put(feedback);
+    const output = await analyzeFeedback(feedback, analysisOptions, onItemAnalyzed);
+    const outputValidationResult = AnalyzeFeedbackOutputSchema.safeParse(output);
+    if (!outputValidationResult.success) {
+        console.error('MCP Output Validation Error:', outputValidationResult.error);
+        throw new Error(`AI analysis returned invalid output: ${outputValidationResult.error.message}`);
+    }
+    // Upsert by item key so earlier insights survive a partial or incremental ingestion
+    const ingested = await insightStore.upsert(outputValidationResult.data.analyzedResults);
+    console.log(`Insight store now holds ${await insightStore.count()} insights.`);
+    const topics = await refreshTopics();
+    console.log(`Insights now fall into ${topics.length} topics.`);
+    // Each run is kept as a dated snapshot for /trends
+    appendSnapshot(buildSnapshot(ingested));
+    await refreshVectorIndex();
+    await notifySubscribers(ingested.filter(isNewlyAnalyzed).map(insight => insight.originalId));
+    // Stored positions shift on upsert, so any in-progress browsing/search restarts
+    userToInsightIndex.clear();
+    userToSearchResults.clear();
+    return outputValidationResult.data;
+});
 
 mcpExpressApp.post('/api/mcp/ingest', async (req, res) => {
     try {
@@ -184,17 +237,14 @@ mcpExpressApp.post('/api/mcp/ingest', async (req, res) => {
         }
 
         const input = validationResult.data;
-        const output = await analyzeFeedbackToolHandler({ feedback: input.feedback });
-        latestAnalysis = output.analyzedResults || [];
-        userToInsightIndex.clear();
-        userToSearchResults.clear();
-        const outputValidationResult = AnalyzeFeedbackOutputSchema.safeParse(output);
-        if (!outputValidationResult.success) {
-            console.error('MCP Output Validation Error:', outputValidationResult.error);
-            return res.status(500).json({ error: 'AI analysis returned invalid output', details: outputValidationResult.error.issues, rawOutput: output });
+        // The same item can arrive twice (e.g. listed by two queries); keep the last copy of each key
+        const feedback = [...new Map(input.feedback.map(item => [item.id, item])).values()];
+        if (feedback.length < input.feedback.length) {
+            console.log(`Dropped ${input.feedback.length - feedback.length} duplicate feedback items.`);
         }
 
-        return res.status(200).json(outputValidationResult.data);
+        const job = ingestJobs.enqueue(feedback);
+        return res.status(202).json({ jobId: job.id, status: job.status, statusUrl: `/api/mcp/jobs/${job.id}` });
 
     } catch (error: any) {
         console.error('Error handling /api/mcp/ingest request on dedicated server:', error);
@@ -202,6 +252,31 @@ mcpExpressApp.post('/api/mcp/ingest', async (req, res) => {
     }
 });
 
+// --- Ingestion job status: progress counts while running, final results once completed ---
+mcpExpressApp.get('/api/mcp/jobs/:id', (req, res) => {
+    const job = ingestJobs.get(req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: `Unknown ingestion job ${req.params.id}` });
+    }
+    return res.status(200).json(job);
+});
+
+// --- Unredacted original of an item, for whoever holds RAW_STORE_TOKEN (disabled when it is unset) ---
+mcpExpressApp.get('/api/mcp/raw/:id', (req, res) => {
+    const token = process.env.RAW_STORE_TOKEN;
+    const presented = Buffer.from(req.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '');
+    if (!token || !rawFeedbackStore) {
+        return res.status(404).json({ error: 'Raw feedback access is not enabled' });
+    }
+    if (presented.length !== Buffer.byteLength(token) || !timingSafeEqual(presented, Buffer.from(token))) {
+        return res.status(401).json({ error: 'A valid RAW_STORE_TOKEN bearer token is required' });
+    }
+    const item = rawFeedbackStore.get(req.params.id);
+    if (!item) {
+        return res.status(404).json({ error: `No raw feedback stored for ${req.params.id}` });
+    }
+    return res.status(200).json(item);
+});
 
 // --- Community Insider Bot in Teams (using Teams AI Library v2) ---
 // const teamsApp =  App({
@@ -225,26 +300,107 @@ const teamsApp = new App({
 
 
 
-// --- Helper function to create an Adaptive Card for displaying analysis ---
-function createFeedbackAnalysisCard(analysis: z.infer<typeof AnalysisResultSchema>['analysis']) {
+// Where a card sits in the list it was opened from. The card's buttons carry this back, so paging works
+// per card (several can be open at once) and survives restarts, unlike the per-conversation indexes.
+interface CardNavigation {
+    /** The `/search_insights` query of a search result; unset when browsing everything by impact. */
+    query?: string;
+    index: number;
+    total: number;
+}
+
+// What the card buttons submit (Action.Submit data, plus the card's inputs for asks and triage)
+type CardActionData =
+    | { action: 'insight.previous' | 'insight.next'; id: string; navigation: CardNavigation }
+    | { action: 'insight.ask'; id: string; question?: string }
+    | { action: 'insight.triage'; id: string; navigation?: CardNavigation; status?: string; assignee?: string; note?: string };
+
+// Characters of the source text shown on an insight card
+const CARD_EXCERPT_CHARS = 280;
+
+// --- Helper function to create an Adaptive Card for displaying an insight (or why its analysis failed) ---
+function createFeedbackAnalysisCard(result: AnalysisResult & { impact?: number; triage?: Triage }, navigation?: CardNavigation) {
+    const { analysis, metadata: m = {} } = result;
+    const failed = 'error' in analysis;
+    const label = (value: string) => value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, ' ');
+    const count = (value: number | undefined, unit: string) =>
+        value === undefined ? undefined : `${value.toLocaleString('en-US')} ${unit}${value === 1 ? '' : 's'}`;
+
     const card: any = {
         type: "AdaptiveCard",
         $schema: "http://adaptivecards.io/schemas/adaptiveCard.json",
         version: "1.3",
         body: [
+            {
+                type: "ColumnSet",
+                columns: [
+                    {
+                        type: "Column",
+                        width: "stretch",
+                        verticalContentAlignment: "Center",
+                        items: [{
+                            type: "TextBlock",
+                            text: failed ? "⚠️ Analysis Failed" : "Feedback Analysis",
+                            wrap: true,
+                            size: "Large",
+                            weight: "Bolder",
+                            color: failed ? "Attention" : "Default"
+                        }]
+                    },
+                    {
+                        // Source badge
+                        type: "Column",
+                        width: "auto",
+                        verticalContentAlignment: "Center",
+                        items: [{
+                            type: "Container",
+                            style: "emphasis",
+                            items: [{ type: "TextBlock", text: result.originalSource, size: "Small", weight: "Bolder", color: "Accent" }]
+                        }]
+                    }
+                ]
+            }
+        ]
+    };
+
+    if ('error' in analysis) {
+        card.body.push(
             {
                 type: "TextBlock",
-                text: "Feedback Analysis",
-                wrap: true,
-                size: "Large",
-                weight: "Bolder"
+                text: `This item couldn't be analyzed, so it has no summary, priority or facets yet. ${analysis.reason && RETRYABLE_FAILURE_REASONS.includes(analysis.reason)
+                    ? 'Its source is fetched from the same position on the next sync, so it is retried then.'
+                    : 'It is retried when the item changes at its source, or on a full sync (`--full-sync`).'}`,
+                wrap: true
             },
+            {
+                type: "FactSet",
+                facts: [
+                    { title: "Error", value: analysis.error },
+                    { title: "Reason", value: analysis.reason && label(analysis.reason) },
+                    { title: "Attempts", value: analysis.attempts?.toString() },
+                    { title: "Problems", value: analysis.issues?.slice(0, 3).join('; ') }
+                ].filter(fact => fact.value)
+            }
+        );
+    } else {
+        card.body.push(
             {
                 type: "TextBlock",
                 text: `Priority: **${analysis.priority.toUpperCase()}**`,
                 wrap: true,
                 color: analysis.priority === 'high' ? 'Attention' : (analysis.priority === 'medium' ? 'Warning' : 'Good')
             },
+            {
+                // Facets; insights analyzed before these existed may not have them
+                type: "FactSet",
+                facts: [
+                    { title: "Impact", value: result.impact === undefined ? undefined : `${result.impact}/100` },
+                    { title: "Category", value: analysis.category && label(analysis.category) },
+                    { title: "Area", value: analysis.productArea && label(analysis.productArea) },
+                    { title: "Sentiment", value: analysis.sentiment?.toFixed(1) },
+                    { title: "APIs", value: analysis.apis?.length ? analysis.apis.join(', ') : undefined }
+                ].filter(fact => fact.value)
+            },
             {
                 type: "TextBlock",
                 text: "Summary:",
@@ -263,39 +419,447 @@ function createFeedbackAnalysisCard(analysis: z.infer<typeof AnalysisResultSchem
                 wrap: true,
                 weight: "Bolder",
                 spacing: "Medium"
+            },
+            analysis.painPoints.length ? {
+                type: "Container",
+                items: analysis.painPoints.map(point => ({
+                    type: "TextBlock",
+                    text: `- ${point}`,
+                    wrap: true
+                }))
+            } : {
+                type: "TextBlock",
+                text: "No specific pain points identified.",
+                wrap: true,
+                isSubtle: true
             }
-        ]
-    };
+        );
+    }
+
+    // Key source metadata on one line, e.g. "Posted by jdoe on 2025-05-01 · 12 votes · 3 answers · Open"
+    const source = [
+        m.author && `Posted by ${m.author}${m.createdAt ? ` on ${m.createdAt.slice(0, 10)}` : ''}`,
+        !m.author && m.createdAt && `Posted on ${m.createdAt.slice(0, 10)}`,
+        count(m.score, 'vote'),
+        count(m.reactionCount, 'reaction'),
+        count(m.answerCount, 'answer'),
+        count(m.commentCount, 'comment'),
+        count(m.viewCount, 'view'),
+        m.isAnswered && 'Answered',
+        m.state && label(m.state)
+    ].filter(Boolean);
+    const tags = [...(m.tags ?? []), ...(m.labels ?? [])];
+    if (source.length || tags.length) {
+        card.body.push({
+            type: "TextBlock",
+            text: [source.join(' · '), tags.length ? `Tags: ${tags.join(', ')}` : ''].filter(Boolean).join('\n\n'),
+            wrap: true,
+            isSubtle: true,
+            size: "Small",
+            spacing: "Medium"
+        });
+    }
 
-    if (analysis.painPoints && analysis.painPoints.length > 0) {
+    // The start of the (redacted, normalized) post, so the card can be judged without opening the source
+    const excerpt = result.content?.text.replace(/\s+/g, ' ').trim();
+    if (excerpt) {
         card.body.push({
             type: "Container",
-            items: analysis.painPoints.map(point => ({
+            style: "emphasis",
+            spacing: "Medium",
+            items: [{
                 type: "TextBlock",
-                text: `- ${point}`,
-                wrap: true
-            }))
+                text: excerpt.length > CARD_EXCERPT_CHARS ? `${excerpt.slice(0, CARD_EXCERPT_CHARS).replace(/\s+\S*$/, '')}…` : excerpt,
+                wrap: true,
+                size: "Small",
+                maxLines: 6
+            }]
         });
-    } else {
+    }
+
+    // The team's triage state, with the latest note
+    const triage = triageOf(result);
+    const lastNote = triage.notes[triage.notes.length - 1];
+    card.body.push({
+        type: "TextBlock",
+        text: `**Triage:** ${describeTriage(result)}${lastNote ? `\n\n_${lastNote.by}: ${lastNote.text}_` : ''}`,
+        wrap: true,
+        size: "Small",
+        spacing: "Medium"
+    });
+
+    card.body.push({
+        type: "TextBlock",
+        text: `ID: ${result.originalId}`,
+        wrap: true,
+        isSubtle: true,
+        size: "Small",
+        spacing: "Medium"
+    });
+
+    if (navigation && navigation.total > 1) {
         card.body.push({
             type: "TextBlock",
-            text: "No specific pain points identified.",
+            text: `${navigation.query ? `Result ${navigation.index + 1} of ${navigation.total} for "${navigation.query}"` : `Insight ${navigation.index + 1} of ${navigation.total}`}`,
             wrap: true,
-            isSubtle: true
+            isSubtle: true,
+            size: "Small",
+            spacing: "None"
         });
     }
+    const navigate = (action: 'insight.previous' | 'insight.next', title: string): any => ({
+        type: "Action.Submit",
+        title,
+        data: { action, id: result.originalId, navigation }
+    });
+    card.actions = [
+        ...(navigation && navigation.index > 0 ? [navigate('insight.previous', "◀ Previous")] : []),
+        ...(navigation && navigation.index < navigation.total - 1 ? [navigate('insight.next', "Next ▶")] : []),
+        ...(failed ? [] : [{
+            type: "Action.ShowCard",
+            title: "Ask",
+            card: {
+                type: "AdaptiveCard",
+                body: [{ type: "Input.Text", id: "question", placeholder: "Ask a question about this insight", isMultiline: true }],
+                actions: [{ type: "Action.Submit", title: "Ask", data: { action: 'insight.ask', id: result.originalId } }]
+            }
+        }]),
+        {
+            type: "Action.ShowCard",
+            title: "Triage",
+            card: {
+                type: "AdaptiveCard",
+                body: [
+                    {
+                        type: "Input.ChoiceSet",
+                        id: "status",
+                        label: "Status",
+                        value: triage.status,
+                        choices: TriageStatusSchema.options.map(status => ({ title: TRIAGE_STATUS_LABELS[status], value: status }))
+                    },
+                    { type: "Input.Text", id: "assignee", label: "Assignee", value: triage.assignee ?? '', placeholder: "Leave empty for nobody" },
+                    { type: "Input.Text", id: "note", label: "Add a note", isMultiline: true }
+                ],
+                actions: [{ type: "Action.Submit", title: "Save", data: { action: 'insight.triage', id: result.originalId, navigation } }]
+            }
+        },
+        ...(result.originalUrl ? [{ type: "Action.OpenUrl", title: "Open Source", url: result.originalUrl }] : [])
+    ];
 
     return card;
 }
 
+// --- Helper function to create an Adaptive Card listing ranked topics ---
+function createTopicsCard(topics: Topic[], title: string) {
+    return {
+        type: "AdaptiveCard",
+        $schema: "http://adaptivecards.io/schemas/adaptiveCard.json",
+        version: "1.3",
+        body: [
+            {
+                type: "TextBlock",
+                text: title,
+                wrap: true,
+                size: "Large",
+                weight: "Bolder"
+            },
+            ...topics.map((topic, i) => ({
+                type: "Container",
+                separator: i > 0,
+                spacing: "Medium",
+                items: [
+                    {
+                        type: "TextBlock",
+                        text: `${i + 1}. ${topic.label}`,
+                        wrap: true,
+                        weight: "Bolder"
+                    },
+                    {
+                        type: "TextBlock",
+                        text: `${topic.memberCount} insights · Priority: **${topic.priority.toUpperCase()}** ` +
+                            `(${topic.priorityCounts.high} high, ${topic.priorityCounts.medium} medium, ${topic.priorityCounts.low} low)`,
+                        wrap: true,
+                        color: topic.priority === 'high' ? 'Attention' : (topic.priority === 'medium' ? 'Warning' : 'Good')
+                    },
+                    {
+                        type: "TextBlock",
+                        text: `Keywords: ${topic.keywords.join(', ')}`,
+                        wrap: true,
+                        isSubtle: true
+                    },
+                    {
+                        type: "TextBlock",
+                        text: `Examples: ${topic.representativeIds.join(', ')}`,
+                        wrap: true,
+                        isSubtle: true,
+                        size: "Small"
+                    }
+                ]
+            }))
+        ]
+    };
+}
+
+// --- Helper function to create an Adaptive Card for a grounded answer, with its sources as link buttons ---
+function createAnswerCard(question: string, answer: string, citations: Citation[]) {
+    const linked = citations.filter(c => c.insight.originalUrl);
+    const unlinked = citations.filter(c => !c.insight.originalUrl);
+    return {
+        type: "AdaptiveCard",
+        $schema: "http://adaptivecards.io/schemas/adaptiveCard.json",
+        version: "1.3",
+        body: [
+            {
+                type: "TextBlock",
+                text: question,
+                wrap: true,
+                size: "Medium",
+                weight: "Bolder"
+            },
+            {
+                type: "TextBlock",
+                text: answer,
+                wrap: true
+            },
+            ...(citations.length ? [{
+                type: "FactSet",
+                spacing: "Medium",
+                facts: citations.map(c => ({ title: `[${c.n}]`, value: `${c.insight.originalSource}: ${c.insight.originalId}` }))
+            }] : []),
+            ...(unlinked.length ? [{
+                type: "TextBlock",
+                text: `No link available for ${unlinked.map(c => `[${c.n}]`).join(', ')}; look them up with \`/search_insights <id>\`.`,
+                wrap: true,
+                isSubtle: true,
+                size: "Small"
+            }] : [])
+        ],
+        // Teams shows up to six actions on a card
+        actions: linked.slice(0, 6).map(c => ({
+            type: "Action.OpenUrl",
+            title: `[${c.n}] ${c.insight.originalSource}`,
+            url: c.insight.originalUrl
+        }))
+    };
+}
+
+// --- Proactive delivery to a stored conversation (channel, group chat or personal chat) ---
+async function sendProactive(conversation: ConversationReference, activity: ActivityLike): Promise<void> {
+    await teamsApp.http.send(toActivityParams(activity), conversation);
+}
+
+// Alerts show at most this many cards; the rest are left to `/search_insights`
+const MAX_ALERT_CARDS = 5;
+
+// --- Pushes newly ingested insights to every subscription they match ---
+async function notifySubscribers(newIds: string[]): Promise<void> {
+    const subscriptions = subscriptionStore.list();
+    if (!newIds.length || !subscriptions.length) return;
+    const ids = new Set(newIds);
+    const added = (await rankedInsights()).filter(insight => ids.has(insight.originalId) && !('error' in insight.analysis));
+    let sent = 0;
+    for (const subscription of subscriptions) {
+        const matches = added.filter(insight => subscriptionMatches(subscription, insight));
+        if (!matches.length) continue;
+        const more = matches.length > MAX_ALERT_CARDS
+            ? ` Showing the top ${MAX_ALERT_CARDS}; find the rest with \`/search_insights ${subscription.query}\`.`
+            : '';
+        try {
+            await sendProactive(subscription.conversation, {
+                type: 'message',
+                text: `🔔 ${matches.length} new insight${matches.length === 1 ? '' : 's'} for your subscription \`${subscription.query}\`.${more}`,
+                attachmentLayout: 'carousel',
+                attachments: matches.slice(0, MAX_ALERT_CARDS).map(insight => ({
+                    contentType: 'application/vnd.microsoft.card.adaptive',
+                    content: createFeedbackAnalysisCard(insight)
+                }))
+            });
+            sent++;
+        } catch (error: any) {
+            console.error(`Alerting subscription ${subscription.id} failed:`, error.message || error);
+        }
+    }
+    if (sent) {
+        console.log(`Sent new-insight alerts for ${sent} subscriptions.`);
+    }
+}
+
+// --- Helper function to create an Adaptive Card for a scheduled digest ---
+function createDigestCard(digest: Digest, schedule: DigestSchedule, since: Date) {
+    const link = (insight: RankedInsight) => {
+        const a = insight.analysis;
+        const title = 'error' in a ? insight.originalId : a.summary;
+        return insight.originalUrl ? `[${title}](${insight.originalUrl})` : `${title} (${insight.originalId})`;
+    };
+    return {
+        type: "AdaptiveCard",
+        $schema: "http://adaptivecards.io/schemas/adaptiveCard.json",
+        version: "1.3",
+        body: [
+            {
+                type: "TextBlock",
+                text: `${schedule.frequency === 'weekly' ? 'Weekly' : 'Daily'} Insights Digest${schedule.query ? ` (${schedule.query})` : ''}`,
+                wrap: true,
+                size: "Large",
+                weight: "Bolder"
+            },
+            {
+                type: "TextBlock",
+                text: `New since ${since.toISOString().slice(0, 16).replace('T', ' ')} UTC`,
+                wrap: true,
+                isSubtle: true,
+                spacing: "None"
+            },
+            {
+                type: "TextBlock",
+                text: digest.summary,
+                wrap: true
+            },
+            {
+                type: "FactSet",
+                spacing: "Medium",
+                facts: [
+                    { title: "New insights", value: String(digest.newCount) },
+                    { title: "High", value: String(digest.priorityCounts.high) },
+                    { title: "Medium", value: String(digest.priorityCounts.medium) },
+                    { title: "Low", value: String(digest.priorityCounts.low) }
+                ]
+            },
+            ...(digest.topTopics.length ? [{
+                type: "TextBlock",
+                text: `**Top topics**\n\n${digest.topTopics.map(topic => `- ${topic.label} (${topic.count})`).join('\n')}`,
+                wrap: true,
+                spacing: "Medium"
+            }] : []),
+            ...(digest.highlights.length ? [{
+                type: "TextBlock",
+                text: `**Highest impact**\n\n${digest.highlights.map(insight => `- ${link(insight)}`).join('\n')}`,
+                wrap: true,
+                spacing: "Medium"
+            }] : [])
+        ]
+    };
+}
+
+// --- Posts one scheduled digest: insights first analyzed since the previous digest that match its filters ---
+async function deliverDigest(schedule: DigestSchedule, since: Date, until: Date): Promise<void> {
+    const fresh = (await rankedInsights(schedule.filter)).filter(insight => {
+        const firstAnalyzed = insight.firstAnalyzedAt ? Date.parse(insight.firstAnalyzedAt) : NaN;
+        return firstAnalyzed >= since.getTime() && firstAnalyzed < until.getTime()
+            && (!schedule.keyword || matchesKeyword(insight, schedule.keyword));
+    });
+    const digest = await writeDigest(fresh, latestTopics ?? await refreshTopics(), chatModel);
+    await sendProactive(schedule.conversation, {
+        type: 'message',
+        attachments: [{
+            contentType: 'application/vnd.microsoft.card.adaptive',
+            content: createDigestCard(digest, schedule, since)
+        }]
+    });
+    console.log(`Sent ${schedule.frequency} digest ${schedule.id} (${digest.newCount} new insights).`);
+}
+
+const digestScheduler = new DigestScheduler(digestStore, deliverDigest);
+
+// --- Triage edits from `/triage` and the card's Triage form; "me" as the assignee means whoever made the edit ---
+async function triageInsight(id: string, change: TriageChange, from: { id: string; name?: string }): Promise<StoredInsight | undefined> {
+    const insight = await insightStore.get(id) ?? (await insightStore.list()).find(i => sameFeedbackKey(i.originalId, id));
+    if (!insight) return undefined;
+    const by = from.name || from.id;
+    const assignee = change.assignee?.trim().toLowerCase() === 'me' ? by
+        : change.assignee?.trim().toLowerCase() === 'none' ? '' : change.assignee;
+    return insightStore.setTriage(insight.originalId, applyTriage(insight.triage, { ...change, assignee }, by));
+}
+
+// --- Answers a question about one insight (`/ask_about_current` and the card's Ask button) ---
+async function answerAboutInsight(insight: RankedInsight, question: string): Promise<string> {
+    const prompt = new ChatPrompt({
+        instructions: `You are an assistant. Given the following feedback analysis, answer the user's question as helpfully as possible.\n\nFeedback Analysis:\n${JSON.stringify(insight.analysis, null, 2)}`,
+        model: chatModel,
+    });
+    const aiResponse = await prompt.send(question);
+    return aiResponse.content?.trim() || "Sorry, I couldn't answer your question.";
+}
+
+// Lists a conversation's subscriptions for `/subscribe` and `/unsubscribe`
+const describeSubscriptions = (subscriptions: Subscription[]) =>
+    subscriptions.map(s => `- \`${s.id}\` — ${s.query}`).join('\n');
 
 // --- Conversational Message handler for the Teams Bot. ---
+const HELP_PHRASES = ['help', '/help', 'what can you do', 'what are the other commands', '/commands'];
+
 teamsApp.on('message', async (context) => {
   await context.send({ type: 'typing' });
 
   const text = context.activity.text?.trim();
   const lowerText = text?.toLowerCase() || "";
   const userKey = context.activity.conversation.id;
+  const insights = await rankedInsights();
+
+  // --- Card buttons (Action.Submit): page through the card's list or triage its insight in place, or ask about it ---
+  const cardAction = context.activity.value as CardActionData | undefined;
+  // Replaces the card whose button was pressed; posts a new one if the client didn't say which (or the update fails)
+  const replaceCard = async (card: any) => {
+    const activity = {
+      type: 'message' as const,
+      attachments: [{ contentType: 'application/vnd.microsoft.card.adaptive' as const, content: card }]
+    };
+    const replyToId = context.activity.replyToId;
+    if (replyToId) {
+      try {
+        await context.api.conversations.activities(context.activity.conversation.id).update(replyToId, activity);
+        return;
+      } catch (err: any) {
+        console.error('Updating the insight card failed:', err.message || err);
+      }
+    }
+    await context.send(activity);
+  };
+  if (cardAction?.action === 'insight.ask') {
+    const idx = insights.findIndex(i => i.originalId === cardAction.id);
+    const question = cardAction.question?.trim();
+    if (idx < 0) {
+      await context.send('That insight is no longer available. Use `/show_insights` to browse the current ones.');
+      return;
+    }
+    if (!question) {
+      await context.send('Please type a question before pressing Ask.');
+      return;
+    }
+    userToInsightIndex.set(userKey, idx);
+    try {
+      await context.send(await answerAboutInsight(insights[idx], question));
+    } catch (err: any) {
+      await context.send("Sorry, I couldn't process your question.");
+    }
+    return;
+  }
+  if (cardAction?.action === 'insight.previous' || cardAction?.action === 'insight.next') {
+    const { query, index } = cardAction.navigation;
+    const list = query ? (await searchInsights(query)).matches : insights;
+    // Positions shift when insights are ingested after the card was sent, so start from the card's insight
+    const at = list.findIndex(i => i.originalId === cardAction.id);
+    const target = (at >= 0 ? at : index) + (cardAction.action === 'insight.next' ? 1 : -1);
+    const result = list[target];
+    if (!result) {
+      await context.send(query ? `No more results for "${query}".` : 'No more insights. Type /show_insights to start over.');
+      return;
+    }
+    userToInsightIndex.set(userKey, insights.findIndex(i => i.originalId === result.originalId));
+    await replaceCard(createFeedbackAnalysisCard(result, { query, index: target, total: list.length }));
+    return;
+  }
+  if (cardAction?.action === 'insight.triage') {
+    const status = cardAction.status ? parseTriageStatus(cardAction.status) : undefined;
+    const updated = await triageInsight(cardAction.id, { status, assignee: cardAction.assignee, note: cardAction.note }, context.activity.from);
+    if (!updated) {
+      await context.send('That insight is no longer available. Use `/show_insights` to browse the current ones.');
+      return;
+    }
+    const impact = insights.find(i => i.originalId === updated.originalId)?.impact;
+    await replaceCard(createFeedbackAnalysisCard({ ...updated, impact }, cardAction.navigation));
+    return;
+  }
 
   // --- Friendly welcome for greetings ---
   if (["hi", "hello", "hey"].includes(lowerText)) {
@@ -308,36 +872,17 @@ teamsApp.on('message', async (context) => {
     return;
   }
 
-  // --- Friendly response for "what can you do" or "what are the other commands" ---
-  if (
-    lowerText.includes("what can you do") ||
-    lowerText.includes("help") ||
-    lowerText.includes("what are the other commands") ||
-    lowerText === "/commands"
-  ) {
-    await context.send(
-      "🤖 Here are some things you can do:\n" +
-      "- `/show_insights` — Browse developer feedback insights one by one\n" +
-      "- `/next_insight` — See the next insight\n" +
-      "- `/latest_insight` — Show the most recent insight\n" +
-      "- `/search_insights <keyword>` — Search insights by topic or pain point\n" +
-      "- `/next_search_result` — See the next search result\n" +
-      "- `/ask_about_current <your question>` — Ask about the currently displayed card\n\n" +
-      "You can also just chat with me about developer pain points or Teams Platform feedback!"
-    );
-    return;
-  }
-
   // --- Show the most recent card ---
   if (lowerText === '/latest_insight') {
-    if (!latestAnalysis.length) {
+    if (!insights.length) {
       await context.send('No insights are available yet. Please check back soon for actionable developer feedback!');
       return;
     }
-    const idx = latestAnalysis.length - 1;
+    // Browsing order is by impact, so look for the newest ingestion explicitly
+    const idx = insights.reduce((newest, insight, i) => (insight.updatedAt > insights[newest].updatedAt ? i : newest), 0);
     userToInsightIndex.set(userKey, idx);
-    const result = latestAnalysis[idx];
-    const card = createFeedbackAnalysisCard(result.analysis);
+    const result = insights[idx];
+    const card = createFeedbackAnalysisCard(result, { index: idx, total: insights.length });
     await context.send({
       type: 'message',
       attachments: [{
@@ -349,31 +894,30 @@ teamsApp.on('message', async (context) => {
     return;
   }
 
-  // --- Search insights by keyword ---
-  if (lowerText.startsWith('/search_insights')) {
-    const keyword = text?.slice('/search_insights'.length).trim().toLowerCase();
-    if (!keyword) {
-      await context.send('Please provide a keyword to search. Example: `/search_insights bot`');
+  // --- Search insights by keyword and/or facets (area:auth category:bug priority:high api:graph status:new) ---
+  // `/show_insights <filters>` browses a filtered list (e.g. `status:new`) the same way.
+  if (lowerText.startsWith('/search_insights') || lowerText.startsWith('/show_insights ')) {
+    const command = lowerText.startsWith('/show_insights ') ? '/show_insights' : '/search_insights';
+    const query = text?.slice(command.length).trim() || '';
+    if (!query) {
+      await context.send('Please provide a keyword to search. Example: `/search_insights bot` or `/search_insights sso area:auth category:bug`');
       return;
     }
-    if (!latestAnalysis.length) {
+    if (!insights.length) {
       await context.send('No insights are available yet. Please check back soon for actionable developer feedback!');
       return;
     }
-    const matches = latestAnalysis.filter(r => {
-      const a = r.analysis;
-      if ('error' in a) return false;
-      return (
-        (a.summary && a.summary.toLowerCase().includes(keyword)) ||
-        (a.painPoints && a.painPoints.some((p: string) => p.toLowerCase().includes(keyword)))
-      );
-    });
+    const { matches, errors } = await searchInsights(query);
+    if (errors.length) {
+      await context.send(errors.join('\n'));
+      return;
+    }
     if (!matches.length) {
-      await context.send(`No insights found matching "${keyword}".`);
+      await context.send(`No insights found matching "${query}".`);
       return;
     }
-    userToSearchResults.set(userKey, { matches, idx: 0 });
-    const card = createFeedbackAnalysisCard(matches[0].analysis);
+    userToSearchResults.set(userKey, { query, matches, idx: 0 });
+    const card = createFeedbackAnalysisCard(matches[0], { query, index: 0, total: matches.length });
     await context.send({
       type: 'message',
       attachments: [{
@@ -384,7 +928,184 @@ teamsApp.on('message', async (context) => {
     if (matches.length > 1) {
       await context.send(`Found ${matches.length} results. Type /next_search_result to see the next match.`);
     }
-    userToInsightIndex.set(userKey, latestAnalysis.indexOf(matches[0]));
+    userToInsightIndex.set(userKey, insights.findIndex(i => i.originalId === matches[0].originalId));
+    return;
+  }
+
+  // --- Triage: `/triage <id>` shows the record, `/triage <id> <status> [note]`, `assign <name|me|none>` or `note <text>` edit it ---
+  if (lowerText === '/triage' || lowerText.startsWith('/triage ')) {
+    const [id, ...words] = (text?.slice('/triage'.length).trim() || '').split(/\s+/).filter(Boolean);
+    const statuses = TriageStatusSchema.options.map(status => `\`${status}\``).join(', ');
+    if (!id) {
+      await context.send(`Usage: \`/triage <id> <status> [note]\` with a status of ${statuses}; ` +
+        '`/triage <id> assign <name|me|none>`; `/triage <id> note <text>`; or `/triage <id>` to see its history.');
+      return;
+    }
+    let change: TriageChange | undefined;
+    const action = words[0]?.toLowerCase();
+    if (!words.length) {
+      change = {};
+    } else if (action === 'assign' && words.length > 1) {
+      change = { assignee: words.slice(1).join(' ') };
+    } else if (action === 'note' && words.length > 1) {
+      change = { note: words.slice(1).join(' ') };
+    } else {
+      // Two-word statuses first ("in progress", "won't fix"); whatever follows the status is a note
+      for (const length of [2, 1]) {
+        const status = parseTriageStatus(words.slice(0, length).join(' '));
+        if (status) {
+          change = { status, note: words.slice(length).join(' ') };
+          break;
+        }
+      }
+    }
+    if (!change) {
+      await context.send(`Unknown triage status "${words.join(' ')}". Try one of: ${statuses}.`);
+      return;
+    }
+    const updated = await triageInsight(id, change, context.activity.from);
+    if (!updated) {
+      await context.send(`No insight with ID \`${id}\`. Copy the ID from an insight card, or find it with \`/search_insights\`.`);
+      return;
+    }
+    const log = triageLog(triageOf(updated));
+    await context.send(`**${updated.originalId}**: ${describeTriage(updated)}` + (log.length ? `\n\n${log.map(line => `- ${line}`).join('\n')}` : ''));
+    return;
+  }
+
+  // --- Recurring themes across insights, optionally narrowed by the same facets as search ---
+  if (lowerText === '/topics' || lowerText.startsWith('/topics ')) {
+    const query = text?.slice('/topics'.length).trim() || '';
+    const { filter, errors } = parseInsightQuery(query);
+    if (errors.length) {
+      await context.send(errors.join('\n'));
+      return;
+    }
+    const topics = query
+      ? topicsFor(await insightStore.list(filter), topicStore, topicOptions)
+      : latestTopics ?? await refreshTopics();
+    if (!topics.length) {
+      await context.send(insights.length
+        ? `No recurring topics yet${query ? ` for "${query}"` : ''}: no pain point is shared by at least ${topicOptions.minMembers} insights.`
+        : 'No insights are available yet. Please check back soon for actionable developer feedback!');
+      return;
+    }
+    const shown = topics.slice(0, 10);
+    const card = createTopicsCard(shown, query ? `Top Topics (${query})` : 'Top Topics');
+    await context.send({
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        content: card
+      }]
+    });
+    await context.send(`Showing ${shown.length} of ${topics.length} topics. Open an example with \`/search_insights <id>\`.`);
+    return;
+  }
+
+  // --- Biggest risers and fallers: new insights in the last 7/30 days vs the period before ---
+  if (lowerText === '/trends' || lowerText.startsWith('/trends ')) {
+    const arg = lowerText.slice('/trends'.length).trim() || '7d';
+    if (arg !== '7d' && arg !== '30d') {
+      await context.send('Please choose a window of `7d` or `30d`. Example: `/trends 30d`');
+      return;
+    }
+    const report = computeTrends(loadSnapshots(), await insightStore.list(), latestTopics ?? await refreshTopics(), parseInt(arg, 10));
+    if (!report.currentTotal && !report.previousTotal) {
+      await context.send(`No new insights were ingested in the last ${report.windowDays * 2} days, so there are no trends to report.`);
+      return;
+    }
+    const period = report.windowDays === 7 ? 'week' : `${report.windowDays} days`;
+    const formatEntry = (entry: TrendEntry) =>
+      `- ${entry.label}: ${entry.current} (${entry.delta >= 0 ? '+' : ''}${entry.delta} vs ${entry.previous})`;
+    const section = (title: string, entries: TrendEntry[]) =>
+      entries.length ? [`**${title}**`, ...entries.slice(0, 5).map(formatEntry)] : [];
+    const categoryLabel = (entry: TrendEntry) => ({ ...entry, label: entry.label.charAt(0).toUpperCase() + entry.label.slice(1).replace(/_/g, ' ') });
+    const lines = [
+      `📈 **Trends: last ${period} vs the ${period} before**`,
+      `New insights: ${report.currentTotal} (${report.currentTotal - report.previousTotal >= 0 ? '+' : ''}${report.currentTotal - report.previousTotal} vs ${report.previousTotal})`,
+      ...section('Rising topics', report.topics.filter(t => t.delta > 0)),
+      ...section('Fading topics', report.topics.filter(t => t.delta < 0).reverse()),
+      ...section('By category', report.categories.map(categoryLabel)),
+    ];
+    if (!report.fullHistory) {
+      lines.push(`_Ingestion history doesn't cover the whole previous ${period} yet, so rises may be overstated._`);
+    }
+    await context.send(lines.join('\n\n'));
+    return;
+  }
+
+  // --- Alerts for new insights matching a keyword and/or facets, delivered to this conversation ---
+  if (lowerText === '/subscribe' || lowerText.startsWith('/subscribe ')) {
+    const query = text?.slice('/subscribe'.length).trim() || '';
+    if (!query) {
+      const subscriptions = subscriptionStore.list(userKey);
+      await context.send(subscriptions.length
+        ? `🔔 Subscriptions in this conversation:\n${describeSubscriptions(subscriptions)}\n\nRemove one with \`/unsubscribe <id>\`.`
+        : 'No subscriptions here yet. Example: `/subscribe sso priority:high` or `/subscribe area:auth`');
+      return;
+    }
+    const { subscription, errors } = subscriptionStore.add(query, context.ref, context.activity.from.name);
+    if (!subscription) {
+      await context.send(errors.join('\n'));
+      return;
+    }
+    await context.send(`🔔 Subscribed (\`${subscription.id}\`): I'll post new insights matching \`${subscription.query}\` here as they are ingested.`);
+    return;
+  }
+
+  if (lowerText === '/unsubscribe' || lowerText.startsWith('/unsubscribe ')) {
+    const id = lowerText.slice('/unsubscribe'.length).trim();
+    if (!id) {
+      const subscriptions = subscriptionStore.list(userKey);
+      await context.send(subscriptions.length
+        ? `Which subscription? Use \`/unsubscribe <id>\` or \`/unsubscribe all\`:\n${describeSubscriptions(subscriptions)}`
+        : 'There are no subscriptions in this conversation.');
+      return;
+    }
+    const removed = subscriptionStore.remove(userKey, id === 'all' ? undefined : id);
+    await context.send(removed.length
+      ? `Unsubscribed from ${removed.map(s => `\`${s.query}\``).join(', ')}.`
+      : `No subscription \`${id}\` in this conversation. Type \`/subscribe\` to list them.`);
+    return;
+  }
+
+  // --- Recurring digest for this conversation: `/digest daily|weekly [time] [day] [filters]`, `/digest off` ---
+  if (lowerText === '/digest' || lowerText.startsWith('/digest ')) {
+    const args = text?.slice('/digest'.length).trim() || '';
+    if (!args) {
+      const schedule = digestStore.get(userKey);
+      await context.send(schedule
+        ? `🗞️ This conversation gets a digest ${describeTiming(schedule)}${schedule.query ? ` for \`${schedule.query}\`` : ''}. ` +
+          `Next one: ${schedule.nextRunAt.slice(0, 16).replace('T', ' ')} UTC. Stop it with \`/digest off\`.`
+        : 'No digest is scheduled here. Example: `/digest weekly 9:00 mon` or `/digest daily 17:30 area:auth priority:high`');
+      return;
+    }
+    if (args.toLowerCase() === 'off') {
+      await context.send(digestStore.remove(userKey) ? 'Digest stopped.' : 'No digest is scheduled here.');
+      return;
+    }
+    const { timing, query, errors } = parseDigestArgs(args);
+    const parsedQuery = parseInsightQuery(query);
+    if (!timing || errors.length || parsedQuery.errors.length) {
+      await context.send([...errors, ...parsedQuery.errors].join('\n'));
+      return;
+    }
+    // Teams reports the client's time zone; DIGEST_TIMEZONE (or UTC) applies when it doesn't
+    const clientTimezone = (context.activity.entities ?? []).map((entity: any) => entity.type === 'clientInfo' && entity.timezone).find(Boolean);
+    const timezone = [clientTimezone, process.env.DIGEST_TIMEZONE].find(tz => tz && isValidTimezone(tz)) || 'UTC';
+    const schedule = digestStore.set({
+      ...timing,
+      timezone,
+      query,
+      keyword: parsedQuery.keyword,
+      filter: parsedQuery.filter,
+      conversation: context.ref,
+      createdBy: context.activity.from.name,
+      nextRunAt: nextDigestRun({ ...timing, timezone }, new Date()).toISOString(),
+    });
+    await context.send(`🗞️ Scheduled a digest ${describeTiming(schedule)}${query ? ` for \`${query}\`` : ''}. ` +
+      `The first one arrives ${schedule.nextRunAt.slice(0, 16).replace('T', ' ')} UTC.`);
     return;
   }
 
@@ -401,7 +1122,8 @@ teamsApp.on('message', async (context) => {
       userToSearchResults.delete(userKey);
       return;
     }
-    const card = createFeedbackAnalysisCard(search.matches[search.idx].analysis);
+    const match = search.matches[search.idx];
+    const card = createFeedbackAnalysisCard(match, { query: search.query, index: search.idx, total: search.matches.length });
     await context.send({
       type: 'message',
       attachments: [{
@@ -414,14 +1136,42 @@ teamsApp.on('message', async (context) => {
     } else {
       await context.send('That was the last search result.');
     }
-    userToInsightIndex.set(userKey, latestAnalysis.indexOf(search.matches[search.idx]));
+    userToInsightIndex.set(userKey, insights.findIndex(i => i.originalId === search.matches[search.idx].originalId));
+    return;
+  }
+
+  // --- Ask across the whole store: retrieve the most relevant insights and answer from them with citations ---
+  if (lowerText === '/ask' || lowerText.startsWith('/ask ')) {
+    const question = text?.slice('/ask'.length).trim();
+    if (!question) {
+      await context.send('Please provide a question. Example: `/ask Why does SSO fail in the Teams desktop client?`');
+      return;
+    }
+    if (!insights.length) {
+      await context.send('No insights are available yet. Please check back soon for actionable developer feedback!');
+      return;
+    }
+    try {
+      const { answer, citations } = await answerFromInsights(question, insights, chatModel, DEFAULT_ASK_OPTIONS,
+        (q, candidates) => hybridSearch(q, candidates, vectorIndex, hybridOptions));
+      await context.send({
+        type: 'message',
+        attachments: [{
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          content: createAnswerCard(question, answer, citations)
+        }]
+      });
+    } catch (err: any) {
+      console.error('/ask failed:', err);
+      await context.send("Sorry, I couldn't process your question.");
+    }
     return;
   }
 
   // --- Ask about the current card ---
   if (lowerText.startsWith('/ask_about_current')) {
     const idx = userToInsightIndex.get(userKey);
-    if (idx === undefined || !latestAnalysis[idx]) {
+    if (idx === undefined || !insights[idx]) {
       await context.send('No current insight selected. Use `/show_insights`, `/latest_insight`, or `/search_insights <keyword>` first.');
       return;
     }
@@ -430,14 +1180,8 @@ teamsApp.on('message', async (context) => {
       await context.send('Please provide a question. Example: `/ask_about_current What is the main pain point?`');
       return;
     }
-    const analysis = latestAnalysis[idx].analysis;
     try {
-      const prompt = new ChatPrompt({
-        instructions: `You are an assistant. Given the following feedback analysis, answer the user's question as helpfully as possible.\n\nFeedback Analysis:\n${JSON.stringify(analysis, null, 2)}`,
-        model: openaiModel,
-      });
-      const aiResponse = await prompt.send(question);
-      await context.send(aiResponse.content?.trim() || "Sorry, I couldn't answer your question.");
+      await context.send(await answerAboutInsight(insights[idx], question));
     } catch (err: any) {
       await context.send("Sorry, I couldn't process your question.");
     }
@@ -446,13 +1190,13 @@ teamsApp.on('message', async (context) => {
 
   // --- Show insights one by one (paging) ---
   if (lowerText === '/show_insights') {
-    if (!latestAnalysis.length) {
+    if (!insights.length) {
       await context.send('No insights are available yet. Please check back soon for actionable developer feedback!');
       return;
     }
     userToInsightIndex.set(userKey, 0);
-    const result = latestAnalysis[0];
-    const card = createFeedbackAnalysisCard(result.analysis);
+    const result = insights[0];
+    const card = createFeedbackAnalysisCard(result, { index: 0, total: insights.length });
     await context.send({
       type: 'message',
       attachments: [{
@@ -460,27 +1204,27 @@ teamsApp.on('message', async (context) => {
         content: card
       }]
     });
-    if (latestAnalysis.length > 1) {
-      await context.send(`Type /next_insight to see the next insight (${latestAnalysis.length - 1} more).`);
+    if (insights.length > 1) {
+      await context.send(`Type /next_insight to see the next insight (${insights.length - 1} more).`);
     }
     return;
   }
 
   if (lowerText === '/next_insight') {
-    if (!latestAnalysis.length) {
+    if (!insights.length) {
       await context.send('No insights are available yet. Please check back soon for actionable developer feedback!');
       return;
     }
     let idx = userToInsightIndex.get(userKey) ?? 0;
     idx++;
-    if (idx >= latestAnalysis.length) {
+    if (idx >= insights.length) {
       await context.send('No more insights. Type /show_insights to start over.');
       userToInsightIndex.set(userKey, 0);
       return;
     }
     userToInsightIndex.set(userKey, idx);
-    const result = latestAnalysis[idx];
-    const card = createFeedbackAnalysisCard(result.analysis);
+    const result = insights[idx];
+    const card = createFeedbackAnalysisCard(result, { index: idx, total: insights.length });
     await context.send({
       type: 'message',
       attachments: [{
@@ -488,20 +1232,62 @@ teamsApp.on('message', async (context) => {
         content: card
       }]
     });
-    if (idx < latestAnalysis.length - 1) {
-      await context.send(`Type /next_insight to see the next insight (${latestAnalysis.length - idx - 1} more).`);
+    if (idx < insights.length - 1) {
+      await context.send(`Type /next_insight to see the next insight (${insights.length - idx - 1} more).`);
     } else {
       await context.send('That was the last insight. Type /show_insights to start over.');
     }
     return;
   }
 
-  // --- Default: interactive fallback ---
-  await context.send(
-    `You said: "${context.activity.text}".\n\n` +
-    "💡 Tip: Try `/show_insights` to see the latest developer pain points, or `/search_insights <keyword>` to find something specific.\n" +
-    "You can also ask me questions about developer feedback or Teams Platform pain points!"
-  );
+  // --- Friendly response for "help", "what can you do" or "what are the other commands" ---
+  // Exact phrases only, and after the commands, so questions and command arguments mentioning "help" get through
+  if (HELP_PHRASES.includes(lowerText.replace(/[?!.\s]+$/, ''))) {
+    await context.send(
+      "🤖 Here are some things you can do:\n" +
+      "- `/show_insights` — Browse developer feedback insights one by one, highest impact first\n" +
+      "- `/next_insight` — See the next insight\n" +
+      "- `/latest_insight` — Show the most recent insight\n" +
+      "- `/search_insights <keyword>` — Search insights by topic or pain point, or look one up by its ID\n" +
+      "  Narrow results with `area:auth`, `category:bug`, `priority:high` or `api:graph`\n" +
+      "- `/next_search_result` — See the next search result\n" +
+      "- `/topics [area:auth ...]` — List recurring themes across insights, biggest first\n" +
+      "- `/trends [7d|30d]` — Topics and categories with the biggest rise or fall in new insights\n" +
+      "- `/ask_about_current <your question>` — Ask about the currently displayed card\n" +
+      "- `/ask <your question>` — Ask across all insights; the answer cites its sources\n" +
+      "- `/subscribe <keyword|priority:high|area:auth ...>` — Get an alert here when matching insights come in; `/subscribe` lists yours\n" +
+      "- `/unsubscribe <id|all>` — Stop alerts\n" +
+      "- `/triage <id> <status> [note]` — Set an insight's status (new, triaged, in progress, resolved, won't fix); " +
+      "also `/triage <id> assign <name|me|none>`, `/triage <id> note <text>` and `/triage <id>` for its history\n" +
+      "  Filter by triage state with `status:new` or `assignee:<name>`, e.g. `/show_insights status:new`\n" +
+      "- `/digest daily|weekly [time] [day] [filters]` — Post a summary of new insights here on a schedule; `/digest off` stops it\n\n" +
+      "You can also just chat with me about developer pain points or Teams Platform feedback!"
+    );
+    return;
+  }
+
+  // --- Default: answer free-form questions from the insight corpus (search/filter/lookup/topic tools) ---
+  if (!insights.length) {
+    await context.send('No insights are available yet. Please check back soon for actionable developer feedback!');
+  } else if (!text) {
+    await context.send("💡 Tip: Try `/show_insights` to see the latest developer pain points, or ask me something like \"what are the top auth complaints this month?\"");
+  } else {
+    try {
+      const { answer, cited } = await askInsightAgent(text, chatModel, {
+        rankedInsights,
+        getInsight: id => insightStore.get(id),
+        topics: async () => latestTopics ?? refreshTopics(),
+      });
+      const sources = cited.map(insight => `- ${insight.originalUrl ? `[${insight.originalId}](${insight.originalUrl})` : insight.originalId}`);
+      await context.send(sources.length ? `${answer}\n\n**Sources**\n${sources.join('\n')}` : answer);
+    } catch (err: any) {
+      console.error('Insight agent failed:', err);
+      await context.send(
+        "Sorry, I couldn't answer that right now.\n\n" +
+        "💡 Tip: Try `/show_insights` to see the latest developer pain points, or `/search_insights <keyword>` to find something specific."
+      );
+    }
+  }
   // Store conversation ID for proactive messages later (if needed)
   if (context.activity.from.aadObjectId && context.activity.conversation.id && !userToConversationId.has(context.activity.from.aadObjectId)) {
     userToConversationId.set(context.activity.from.aadObjectId, context.activity.conversation.id);
@@ -524,9 +1310,18 @@ teamsApp.on('message', async (context) => {
         mcpExpressApp.listen(MCP_SERVER_PORT, () => {
             console.log(`MCP Ingestion Server listening on http://localhost:${MCP_SERVER_PORT}`);
             console.log(`MCP Ingestion Endpoint: http://localhost:${MCP_SERVER_PORT}/api/mcp/ingest`);
+            console.log(`MCP Ingestion Job Status: http://localhost:${MCP_SERVER_PORT}/api/mcp/jobs/:id`);
         });
 
-        console.log('Ensure your .env file has AZURE_OPENAI_API_KEY, ENDPOINT, DEPLOYMENT_NAME, and API_VERSION.');
+        // Embed insights stored before the index existed (or under another embedding model)
+        await refreshVectorIndex();
+
+        // Proactive sends need the started bot; digests that came due while it was down go out now
+        digestScheduler.start();
+
+        if (modelProvider === 'mock') {
+            console.log('Running with the offline mock model (MODEL_PROVIDER=mock). Analyses are canned, not real.');
+        }
 
     } catch (error) {
         console.error('Failed to start one or both applications:', error);
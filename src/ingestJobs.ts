@@ -0,0 +1,91 @@
+// src/ingestJobs.ts
+
+import { randomUUID } from 'crypto';
+import { AnalysisResult, AnalyzeFeedbackOutput, FeedbackItem } from './schemas';
+
+export type IngestJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface IngestJob {
+    id: string;
+    status: IngestJobStatus;
+    createdAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+    progress: {
+        total: number;
+        queued: number;   // not analyzed yet
+        analyzed: number; // analyzed successfully
+        cacheHits: number; // of `analyzed`, reused from the analysis cache
+        failed: number;   // analysis returned an error result
+    };
+    /** Final results, present once the job has completed. */
+    result?: AnalyzeFeedbackOutput;
+    error?: string;
+}
+
+// Does the actual work for a job; must call `onItemAnalyzed` once per item so progress stays accurate.
+export type IngestJobRunner = (
+    feedback: FeedbackItem[],
+    onItemAnalyzed: (result: AnalysisResult, info: { cached: boolean }) => void
+) => Promise<AnalyzeFeedbackOutput>;
+
+// Finished jobs are kept (in memory) so clients can still read their results for a while
+const MAX_FINISHED_JOBS = 50;
+
+// --- Runs ingestion batches in the background, one at a time, in submission order ---
+export class IngestJobManager {
+    private readonly jobs = new Map<string, IngestJob>();
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(private readonly runner: IngestJobRunner) {}
+
+    enqueue(feedback: FeedbackItem[]): IngestJob {
+        const job: IngestJob = {
+            id: randomUUID(),
+            status: 'queued',
+            createdAt: new Date().toISOString(),
+            progress: { total: feedback.length, queued: feedback.length, analyzed: 0, cacheHits: 0, failed: 0 }
+        };
+        this.jobs.set(job.id, job);
+        this.queue = this.queue.then(() => this.run(job, feedback));
+        return job;
+    }
+
+    get(id: string): IngestJob | undefined {
+        return this.jobs.get(id);
+    }
+
+    private async run(job: IngestJob, feedback: FeedbackItem[]): Promise<void> {
+        job.status = 'running';
+        job.startedAt = new Date().toISOString();
+        console.log(`Ingestion job ${job.id} started (${job.progress.total} items).`);
+        try {
+            job.result = await this.runner(feedback, (result, { cached }) => {
+                job.progress.queued--;
+                if ('error' in result.analysis) {
+                    job.progress.failed++;
+                } else {
+                    job.progress.analyzed++;
+                    if (cached) {
+                        job.progress.cacheHits++;
+                    }
+                }
+            });
+            job.status = 'completed';
+        } catch (error: any) {
+            console.error(`Ingestion job ${job.id} failed:`, error);
+            job.status = 'failed';
+            job.error = error.message || String(error);
+        }
+        job.finishedAt = new Date().toISOString();
+        console.log(`Ingestion job ${job.id} ${job.status}: ${job.progress.analyzed} analyzed, ${job.progress.failed} failed.`);
+        this.pruneFinished();
+    }
+
+    private pruneFinished(): void {
+        const finished = [...this.jobs.values()].filter(job => job.status === 'completed' || job.status === 'failed');
+        for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+            this.jobs.delete(job.id);
+        }
+    }
+}
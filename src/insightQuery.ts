@@ -0,0 +1,91 @@
+// src/insightQuery.ts
+
+import {
+    AnalysisResult,
+    FeedbackCategory,
+    FeedbackCategorySchema,
+    Priority,
+    PrioritySchema,
+    ProductArea,
+    ProductAreaSchema,
+    Triage,
+    TriageStatus,
+    TriageStatusSchema
+} from './schemas';
+
+// --- Facet filters shared by the insight store and the bot's search commands ---
+export interface InsightFilter {
+    priority?: Priority;
+    category?: FeedbackCategory;
+    productArea?: ProductArea;
+    /** Case-insensitive substring of one of the mentioned APIs. */
+    api?: string;
+    /** Triage status; insights that were never triaged are "new". */
+    status?: TriageStatus;
+    /** Case-insensitive substring of the assignee's name, or "none" for unassigned insights. */
+    assignee?: string;
+}
+
+export function matchesFilter(result: AnalysisResult & { triage?: Triage }, filter: InsightFilter = {}): boolean {
+    const { status, assignee, ...facets } = filter;
+    const owner = result.triage?.assignee?.toLowerCase();
+    if (status && (result.triage?.status ?? 'new') !== status) return false;
+    if (assignee && (assignee.toLowerCase() === 'none' ? !!owner : !owner?.includes(assignee.toLowerCase()))) return false;
+
+    const a = result.analysis;
+    if ('error' in a) {
+        // Failed analyses have no facets, so they only show up in lists filtered by triage alone
+        return Object.values(facets).every(value => value === undefined);
+    }
+    const api = filter.api?.toLowerCase();
+    return (
+        (!filter.priority || a.priority === filter.priority) &&
+        (!filter.category || a.category === filter.category) &&
+        (!filter.productArea || a.productArea === filter.productArea) &&
+        (!api || !!a.apis?.some(name => name.toLowerCase().includes(api)))
+    );
+}
+
+// Free-text match on what the analysis says (summary, pain points, APIs); `keyword` must be lowercase.
+export function matchesKeyword(result: AnalysisResult, keyword: string): boolean {
+    const a = result.analysis;
+    if ('error' in a) return false;
+    return (
+        a.summary.toLowerCase().includes(keyword) ||
+        a.painPoints.some(p => p.toLowerCase().includes(keyword)) ||
+        !!a.apis?.some(api => api.toLowerCase().includes(keyword))
+    );
+}
+
+// `/search_insights` accepts `key:value` facet tokens next to the free-text keyword, e.g.
+// `token exchange area:auth category:bug priority:high api:teamsfx`, or by triage state: `status:new assignee:dana`.
+const FACETS = {
+    priority: { field: 'priority', values: PrioritySchema.options },
+    category: { field: 'category', values: FeedbackCategorySchema.options },
+    area: { field: 'productArea', values: ProductAreaSchema.options },
+    api: { field: 'api', values: undefined },
+    status: { field: 'status', values: TriageStatusSchema.options },
+    assignee: { field: 'assignee', values: undefined },
+} as const;
+
+export function parseInsightQuery(query: string): { keyword: string; filter: InsightFilter; errors: string[] } {
+    const filter: Record<string, string> = {};
+    const errors: string[] = [];
+    const words: string[] = [];
+
+    for (const token of query.trim().split(/\s+/).filter(Boolean)) {
+        const [, name, value] = token.match(/^(\w+):(.+)$/) ?? [];
+        const facet = name && FACETS[name.toLowerCase() as keyof typeof FACETS];
+        if (!facet) {
+            words.push(token);
+            continue;
+        }
+        const normalized = value.toLowerCase().replace(/-/g, '_');
+        if (facet.values && !(facet.values as readonly string[]).includes(normalized)) {
+            errors.push(`Unknown ${name} "${value}". Try one of: ${facet.values.join(', ')}.`);
+            continue;
+        }
+        filter[facet.field] = facet.values ? normalized : value;
+    }
+    return { keyword: words.join(' ').toLowerCase(), filter: filter as InsightFilter, errors };
+}
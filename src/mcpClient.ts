@@ -1,14 +1,24 @@
 import fetch from 'node-fetch';
+import { sleep } from './utils/sleep';
 import * as dotenv from 'dotenv';
 dotenv.config();
 
-const STACK_OVERFLOW_API_KEY = process.env.STACK_OVERFLOW_API_KEY!;
-const GITHUB_TOKEN = process.env.GITHUB_TOKEN!;
+import { createFeedbackSourceRegistry, loadFeedbackSourcesConfig } from './sources';
+import { SourceCursors, loadSourceCursors, saveSourceCursors } from './sources/cursorStore';
+import { FeedbackItem } from './schemas';
+import { parseFeedbackKey } from './feedbackKey';
+
 // CHANGE THIS: The URL for your custom Express ingestion endpoint
 const INGEST_ENDPOINT_URL = 'http://localhost:3975/api/mcp/ingest';
+// Pass --full-sync to ignore the saved per-source cursors and refetch everything
+const FULL_SYNC = process.argv.includes('--full-sync');
+// Pass --no-wait to return as soon as the ingestion job is queued instead of polling it to completion
+const WAIT_FOR_JOB = !process.argv.includes('--no-wait');
+const JOB_POLL_INTERVAL_MS = 2000;
 
-// Helper function to send data to your custom ingestion endpoint
-async function sendFeedbackToIngestEndpoint(feedbackData: any[]) {
+// Helper function to send data to your custom ingestion endpoint.
+// The server analyzes in the background and answers with the ID of the ingestion job.
+async function sendFeedbackToIngestEndpoint(feedbackData: FeedbackItem[]): Promise<{ jobId: string; statusUrl: string }> {
   const res = await fetch(INGEST_ENDPOINT_URL, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -24,51 +34,87 @@ async function sendFeedbackToIngestEndpoint(feedbackData: any[]) {
   return res.json();
 }
 
-async function fetchStackOverflowQuestions() {
-  const res = await fetch(
-    `https://api.stackexchange.com/2.3/questions?order=desc&sort=activity&tagged=microsoft-teams&site=stackoverflow&filter=withbody&key=${STACK_OVERFLOW_API_KEY}`
-  );
-  const data = await res.json();
-  if (!Array.isArray(data.items)) {
-    throw new Error('Stack Overflow response invalid');
+async function getIngestJob(statusUrl: string) {
+  const res = await fetch(new URL(statusUrl, INGEST_ENDPOINT_URL).toString());
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Ingestion job status error ${res.status}: ${text}`);
   }
-  return data.items.map((q: any) => ({
-    id: q.question_id,
-    text: `${q.title} ${q.body}`,
-    source: 'Stack Overflow',
-    url: `https://stackoverflow.com/questions/${q.question_id}`
-  }));
+  return res.json();
 }
 
-async function fetchGitHubIssues() {
-  const res = await fetch(`https://api.github.com/repos/MicrosoftDocs/msteams-docs/issues`, {
-    headers: { Authorization: `token ${GITHUB_TOKEN}` },
-  });
-  const data = await res.json();
-  if (!Array.isArray(data)) {
-    throw new Error('GitHub response invalid');
+// Polls the job until it finishes, logging progress whenever it changes
+async function waitForIngestJob(statusUrl: string) {
+  let lastProgress = '';
+  for (;;) {
+    const job = await getIngestJob(statusUrl);
+    const { total, queued, analyzed, failed } = job.progress;
+    const progress = `${job.status}: ${analyzed + failed}/${total} done (${analyzed} analyzed, ${failed} failed, ${queued} queued)`;
+    if (progress !== lastProgress) {
+      console.log(`⏳ Job ${job.id} ${progress}`);
+      lastProgress = progress;
+    }
+    if (job.status === 'completed') {
+      return job.result;
+    }
+    if (job.status === 'failed') {
+      throw new Error(`Ingestion job ${job.id} failed: ${job.error}`);
+    }
+    await sleep(JOB_POLL_INTERVAL_MS);
   }
-  return data.map((issue: any) => ({
-    id: issue.id,
-    text: `${issue.title} ${issue.body}`,
-    source: 'GitHub Issues',
-    url: issue.html_url
-  }));
+}
+
+// Sources with items that failed for a retryable reason (model error, exhausted budget) keep their previous
+// cursor, so the next run fetches those items again; the ones that did succeed come back as cache hits.
+function cursorsAfterIngest(previous: SourceCursors, next: SourceCursors, retryableIds: string[] = []): SourceCursors {
+  const held = new Set(retryableIds.map(id => parseFeedbackKey(id)?.source).filter((source): source is string => !!source));
+  const cursors = { ...next };
+  for (const source of held) {
+    if (previous[source] === undefined) {
+      delete cursors[source];
+    } else {
+      cursors[source] = previous[source];
+    }
+    console.log(`↩️ ${source}: keeping the previous cursor so items that failed to analyze are retried next run`);
+  }
+  return cursors;
 }
 
 async function runMcpClient() {
   try {
-    const stackOverflow = await fetchStackOverflowQuestions();
-    const gitHub = await fetchGitHubIssues();
-    const allFeedback = [...stackOverflow, ...gitHub];
+    // Sources are registered/enabled from feedback-sources.json (or FEEDBACK_SOURCES_CONFIG)
+    const sourcesConfig = loadFeedbackSourcesConfig();
+    const registry = createFeedbackSourceRegistry(sourcesConfig);
+    const cursors = FULL_SYNC ? {} : loadSourceCursors();
+    const { items: allFeedback, cursors: nextCursors } = await registry.fetchAll(sourcesConfig.sources, cursors);
 
     console.log(`📤 Fetching ${allFeedback.length} feedback items from sources...`);
+    if (!allFeedback.length) {
+      console.log('Nothing new or changed since the last run.');
+      saveSourceCursors(nextCursors);
+      return;
+    }
     console.log(`🚀 Sending feedback to local ingestion endpoint...`);
 
     // CHANGE THIS: Call the new function to send to the ingestion endpoint
-    const response = await sendFeedbackToIngestEndpoint(allFeedback);
+    const { jobId, statusUrl } = await sendFeedbackToIngestEndpoint(allFeedback);
+    console.log(`🧾 Ingestion job ${jobId} queued (status: ${new URL(statusUrl, INGEST_ENDPOINT_URL)})`);
+    if (!WAIT_FOR_JOB) {
+      saveSourceCursors(nextCursors);
+      return;
+    }
+
+    const response = await waitForIngestJob(statusUrl);
+    // Only advance the cursors once the batch has been ingested, so a failed run is retried next time
+    saveSourceCursors(cursorsAfterIngest(cursors, nextCursors, response.stats?.retryableIds));
 
     console.log('✅ Ingestion endpoint response:', JSON.stringify(response, null, 2));
+    if (response.stats) {
+      const { cacheHits, freshAnalyses, failed, redactedItems, retryableIds } = response.stats;
+      console.log(`📊 ${cacheHits} cache hits, ${freshAnalyses} fresh analyses, ${failed} failed` +
+        (retryableIds?.length ? ` (${retryableIds.length} to retry next run)` : '') +
+        (redactedItems ? `, sensitive values masked in ${redactedItems} items` : ''));
+    }
     if (response.analyzedResults && response.analyzedResults.length > 0) {
       console.log('Analyzed Insights for first 3 items:', JSON.stringify(response.analyzedResults.slice(0, 3), null, 2));
       if (response.analyzedResults.length > 3) {
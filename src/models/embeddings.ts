@@ -0,0 +1,120 @@
+// src/models/embeddings.ts
+
+import fetch from 'node-fetch';
+import { createHash } from 'crypto';
+import { tokenize } from '../analysis/topics';
+
+// --- Turns text into vectors for semantic search ---
+export interface EmbeddingModel {
+  /** Provider + model; vectors from different ids are not comparable. */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Azure OpenAI and OpenAI-compatible servers share the `/embeddings` request/response shape.
+class HttpEmbeddingModel implements EmbeddingModel {
+  constructor(
+    readonly id: string,
+    private readonly url: string,
+    private readonly headers: Record<string, string>,
+    private readonly model?: string
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const res = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify({ input: texts, ...(this.model && { model: this.model }) }),
+    });
+    if (!res.ok) {
+      throw new Error(`Embedding request failed with ${res.status}: ${await res.text()}`);
+    }
+    const data = await res.json();
+    return [...data.data].sort((a: any, b: any) => a.index - b.index).map((item: any) => item.embedding);
+  }
+}
+
+// Spellings of the same idea that keyword search treats as unrelated; folded before hashing.
+// Words arrive lowercased and with plurals folded (see tokenize).
+const SYNONYMS: Record<string, string> = {
+  login: 'auth', logon: 'auth', sign: 'auth', signin: 'auth', signon: 'auth', authentication: 'auth',
+  authenticate: 'auth', authorization: 'auth', oauth: 'auth', sso: 'auth', token: 'auth', msal: 'auth',
+  crash: 'fail', crashe: 'fail', broken: 'fail', error: 'fail', failure: 'fail', failing: 'fail',
+  doc: 'docs', documentation: 'docs', sample: 'docs', tutorial: 'docs',
+  messaging: 'message', notification: 'proactive',
+};
+
+// --- Offline embedding: hashed words (with a few domain synonyms) and character trigrams ---
+// Deterministic and free; much weaker than a real model, but enough for CI and local development.
+export class LocalHashEmbeddingModel implements EmbeddingModel {
+  readonly id: string;
+
+  constructor(private readonly dimensions = 256) {
+    this.id = `local-hash:${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vector(text));
+  }
+
+  private vector(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = createHash('md5').update(feature).digest();
+      vector[hash.readUInt32LE(0) % this.dimensions] += (hash[4] & 1 ? 1 : -1) * weight;
+    };
+    for (const word of tokenize(text)) {
+      const folded = SYNONYMS[word] ?? word;
+      add(`w:${folded}`, 1);
+      for (let i = 0; i + 3 <= folded.length; i++) {
+        add(`c:${folded.slice(i, i + 3)}`, 0.3);
+      }
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map(v => v / norm);
+  }
+}
+
+const required = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set for EMBEDDING_PROVIDER=${process.env.EMBEDDING_PROVIDER}`);
+  }
+  return value;
+};
+
+// EMBEDDING_PROVIDER picks the backend:
+//  - azure:  Azure OpenAI (AZURE_OPENAI_EMBEDDING_DEPLOYMENT plus the AZURE_OPENAI_* key, endpoint and API version)
+//  - openai: any OpenAI-compatible endpoint (OPENAI_BASE_URL, OPENAI_EMBEDDING_MODEL, optional OPENAI_API_KEY)
+//  - local:  built-in hashing embedder, no network
+//  - off:    keyword search only
+// When unset, Azure is used if an embedding deployment is configured and the local embedder otherwise.
+export function createEmbeddingModel(provider = process.env.EMBEDDING_PROVIDER): EmbeddingModel | undefined {
+  const selected = provider || (process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT ? 'azure' : 'local');
+  switch (selected) {
+    case 'azure': {
+      const deployment = required('AZURE_OPENAI_EMBEDDING_DEPLOYMENT');
+      const endpoint = required('AZURE_OPENAI_ENDPOINT').replace(/\/$/, '');
+      return new HttpEmbeddingModel(
+        `azure:${deployment}`,
+        `${endpoint}/openai/deployments/${deployment}/embeddings?api-version=${required('AZURE_OPENAI_API_VERSION')}`,
+        { 'api-key': required('AZURE_OPENAI_API_KEY') }
+      );
+    }
+    case 'openai': {
+      const model = required('OPENAI_EMBEDDING_MODEL');
+      return new HttpEmbeddingModel(
+        `openai:${model}`,
+        `${(process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '')}/embeddings`,
+        process.env.OPENAI_API_KEY ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` } : {},
+        model
+      );
+    }
+    case 'local':
+      return new LocalHashEmbeddingModel();
+    case 'off':
+      return undefined;
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}" (expected "azure", "openai", "local" or "off")`);
+  }
+}
@@ -0,0 +1,65 @@
+// src/models/index.ts
+
+import { IChatModel } from '@microsoft/teams.ai';
+import { OpenAIChatModel } from '@microsoft/teams.openai';
+import { MockChatModel } from './mockChatModel';
+
+export type ModelProvider = 'azure' | 'openai' | 'mock';
+
+export interface ChatModelSelection {
+  provider: ModelProvider;
+  model: IChatModel;
+  /** Stable name of provider + model, used wherever results depend on the model (e.g. cache keys). */
+  modelId: string;
+}
+
+const required = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set for MODEL_PROVIDER=${process.env.MODEL_PROVIDER || 'azure'}` +
+      (process.env.MODEL_PROVIDER ? '' : ' (the default); set MODEL_PROVIDER=mock to run offline with the mock model'));
+  }
+  return value;
+};
+
+// MODEL_PROVIDER picks the backend:
+//  - azure:  Azure OpenAI (AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_VERSION, AZURE_OPENAI_DEPLOYMENT_NAME)
+//  - openai: any OpenAI-compatible endpoint, e.g. a local server (OPENAI_BASE_URL, OPENAI_MODEL, optional OPENAI_API_KEY)
+//  - mock:   built-in deterministic model, no network
+// When unset, Azure is used. The mock is never picked implicitly: a deployment missing its key must fail at
+// startup rather than write fake analyses into the store.
+export function createChatModel(provider = process.env.MODEL_PROVIDER): ChatModelSelection {
+  const selected = (provider || 'azure') as ModelProvider;
+  switch (selected) {
+    case 'azure': {
+      const deployment = required('AZURE_OPENAI_DEPLOYMENT_NAME');
+      return {
+        provider: selected,
+        modelId: `azure:${deployment}`,
+        model: new OpenAIChatModel({
+          apiKey: required('AZURE_OPENAI_API_KEY'),
+          endpoint: required('AZURE_OPENAI_ENDPOINT'),
+          apiVersion: required('AZURE_OPENAI_API_VERSION'),
+          model: deployment,
+        }),
+      };
+    }
+    case 'openai': {
+      const model = required('OPENAI_MODEL');
+      return {
+        provider: selected,
+        modelId: `openai:${model}`,
+        model: new OpenAIChatModel({
+          // Local servers usually ignore the key, but the SDK insists on one
+          apiKey: process.env.OPENAI_API_KEY || 'not-needed',
+          baseUrl: process.env.OPENAI_BASE_URL,
+          model,
+        }),
+      };
+    }
+    case 'mock':
+      return { provider: selected, modelId: 'mock', model: new MockChatModel() };
+    default:
+      throw new Error(`Unknown MODEL_PROVIDER "${provider}" (expected "azure", "openai" or "mock")`);
+  }
+}
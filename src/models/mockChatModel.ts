@@ -0,0 +1,116 @@
+// src/models/mockChatModel.ts
+
+import { ChatSendOptions, IChatModel, Message, ModelMessage } from '@microsoft/teams.ai';
+
+const PROBLEM_WORDS = /\b(error|errors|fail(s|ed|ing|ure)?|crash(es|ed)?|exception|broken|bug|not working|doesn't work|unable|cannot|can't|401|403|500)\b/i;
+const QUESTION_WORDS = /\b(how|why|what|is it possible|documentation|docs)\b|\?/i;
+
+const FEATURE_WORDS = /\b(feature request|would be (nice|great)|please add|support for|any plans?)\b/i;
+const DOCS_WORDS = /\b(docs?|documentation|sample|tutorial)\b/i;
+const POSITIVE_WORDS = /\b(thanks|thank you|great|love|works now|solved)\b/gi;
+const API_NAMES = /@microsoft\/[\w-]+(\.[\w-]+)*|\b(TeamsFx|teams-js|TeamsJS|botbuilder|Bot Framework|Microsoft Graph|Graph API|Adaptive Cards?|MSAL(\.js)?|microsoftTeams\.\w+(\.\w+)*)\b/gi;
+// First match wins, so the more specific areas come first
+const AREA_WORDS: [string, RegExp][] = [
+  ['auth', /\b(sso|auth\w*|token|login|sign[- ]?in|aad|entra|consent|oauth|msal)\b/i],
+  ['meetings', /\b(meeting|call|stage|live share)\b/i],
+  ['message_extensions', /\b(message extension|messaging extension|compose extension|link unfurl\w*|search command)\b/i],
+  ['manifest', /\b(manifest|app package|sideload\w*|validdomains)\b/i],
+  ['tabs', /\b(tab|tabs|iframe|teams-js|teamsjs)\b/i],
+  ['bots', /\b(bot|bots|botbuilder|bot framework|adaptive card|proactive)\b/i],
+];
+
+const textOf = (message?: Message): string =>
+  typeof message?.content === 'string' ? message.content : (message?.content ?? []).map(part => ('text' in part ? part.text : '')).join(' ');
+
+const sentencesOf = (text: string): string[] =>
+  text.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+// Stand-in for a tool-using agent: searches with the product area the question mentions (if any) and
+// lists what came back, citing IDs the way the real prompt asks for.
+async function mockToolAnswer(question: string, functions: NonNullable<ChatSendOptions['functions']>): Promise<string | undefined> {
+  const search = Object.values(functions).find(fn => fn.parameters.type === 'object' && 'query' in (fn.parameters.properties ?? {}));
+  if (!search) {
+    return undefined;
+  }
+  const area = AREA_WORDS.find(([, words]) => words.test(question))?.[0];
+  const query = area ? `area:${area}` : '';
+  const output = await search.handler({ query, limit: 5 });
+  const found: { id: string; summary?: string }[] = output?.insights ?? [];
+  if (!found.length) {
+    return `[mock model] ${search.name}("${query}") found no insights.`;
+  }
+  return [
+    `[mock model] ${search.name}("${query}") found ${output.total ?? found.length} insights, top ${found.length}:`,
+    ...found.map(insight => `- ${insight.summary ?? '(analysis failed)'} [${insight.id}]`),
+  ].join('\n');
+}
+
+// Stand-in for a grounded answer: cites the first two numbered sources of the instructions by their summaries.
+function mockGroundedAnswer(system: string): string | undefined {
+  const sources = [...system.matchAll(/^\[(\d+)\] .*\n(?:Summary: (.*))?/gm)].slice(0, 2);
+  if (!sources.length) {
+    return undefined;
+  }
+  return `[mock model] Most relevant: ${sources.map(([, n, summary]) => `${summary ?? 'see source'} [${n}]`).join('; ')}`;
+}
+
+// Stand-in for a digest's executive summary: restates the counts and the biggest topic from the instructions.
+function mockDigestSummary(system: string): string | undefined {
+  const counts = system.match(/^New insights: (.*)$/m)?.[1];
+  if (!/executive summary/i.test(system) || !counts) {
+    return undefined;
+  }
+  const topic = system.match(/^Top topics:\n- (?!\(none)(.*) \(\d+\)$/m)?.[1];
+  return `[mock model] New insights: ${counts}.${topic ? ` The most common topic is "${topic}".` : ''}`;
+}
+
+// Deterministic stand-in for an analysis: same text in, same schema-valid JSON out.
+function mockAnalysis(feedbackText: string) {
+  const sentences = sentencesOf(feedbackText);
+  const problems = sentences.filter(sentence => PROBLEM_WORDS.test(sentence));
+  const priority = problems.length >= 2 ? 'high' : problems.length === 1 || QUESTION_WORDS.test(feedbackText) ? 'medium' : 'low';
+  const category = FEATURE_WORDS.test(feedbackText) ? 'feature_request'
+    : problems.length ? (DOCS_WORDS.test(feedbackText) ? 'docs_gap' : 'bug')
+    : 'how_to';
+  const positives = feedbackText.match(POSITIVE_WORDS)?.length ?? 0;
+  const sentiment = Math.max(-1, Math.min(1, Math.round((positives * 0.3 - problems.length * 0.3) * 10) / 10));
+  return {
+    painPoints: (problems.length ? problems : sentences.slice(0, 1)).slice(0, 3).map(p => truncate(p, 160)),
+    summary: truncate(sentences[0] ?? 'Empty feedback.', 200),
+    priority,
+    category,
+    productArea: AREA_WORDS.find(([, words]) => words.test(feedbackText))?.[0] ?? 'other',
+    sentiment,
+    apis: [...new Set(feedbackText.match(API_NAMES) ?? [])],
+  };
+}
+
+// --- Offline chat model for CI and local development: no network, no keys, reproducible output ---
+// Analysis prompts (recognized by their instructions) get a canned analysis of the feedback text;
+// prompts with a search function get a search-and-list answer, prompts with numbered sources a citing answer,
+// digest prompts a summary of their counts; anything else gets a short deterministic text reply.
+export class MockChatModel implements IChatModel {
+  async send(input: Message, options: ChatSendOptions = {}): Promise<ModelMessage> {
+    const history = (await options.messages?.values()) ?? [];
+    const system = textOf(options.system);
+
+    let content: string;
+    if (/painPoints/.test(system)) {
+      // On a repair round the original feedback is the first user message of the exchange
+      const feedback = history.find(message => message.role === 'user') ?? input;
+      content = JSON.stringify(mockAnalysis(textOf(feedback)));
+    } else {
+      content = (options.functions && await mockToolAnswer(textOf(input), options.functions))
+        ?? mockGroundedAnswer(system)
+        ?? mockDigestSummary(system)
+        ?? `[mock model] ${truncate(sentencesOf(textOf(input))[0] ?? '', 200)}`;
+    }
+
+    const response: ModelMessage = { role: 'model', content };
+    await options.messages?.push(input);
+    await options.messages?.push(response);
+    return response;
+  }
+}
@@ -0,0 +1,88 @@
+// src/redaction/detectors.ts
+
+import { RedactionDetector, RedactionMatch, regexDetector } from './redactor';
+
+// Ordered from most to least specific, since earlier detectors win overlapping matches.
+
+// Quotes and `@` as they appear in HTML that hasn't been decoded (`&quot;`, `&#64;`, ...)
+const QUOTE = `(?:["']|&quot;|&apos;|&#0*3[49];|&#x0*2[27];)`;
+const AT = '(?:@|&commat;|&#0*64;|&#x0*40;)';
+
+export const privateKeyDetector = regexDetector(
+  'private_key',
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/
+);
+
+// Azure Storage / Service Bus / SQL style: a run of `Key=Value;` pairs with a secret in it
+export const connectionStringDetector = regexDetector(
+  'connection_string',
+  /\b(?:DefaultEndpointsProtocol|Endpoint|Server|Data Source|AccountName)=[^;\s]+(?:;[^;\s=]+=[^;\s]*)*;\s*(?:AccountKey|SharedAccessKey|Password|Pwd)=[^;\s"'<]+(?:;[^;\s=]+=[^;\s"'<]*)*/i
+);
+
+export const jwtDetector = regexDetector('jwt', /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/);
+
+export const bearerTokenDetector = regexDetector('bearer_token', /\bBearer\s+([\w\-.~+/]{16,}=*)/i, 1);
+
+// The value of `password: ...`, `client_secret=...`, `"apiKey": "..."`, `AccountKey=...`, app passwords, etc.
+// Key names may carry a prefix (`MicrosoftAppPassword`, `BOT_PASSWORD`), so only the end of the name needs a boundary.
+export const secretAssignmentDetector = regexDetector(
+  'secret',
+  new RegExp(
+    '(?<![A-Za-z0-9_-])[A-Za-z0-9_-]*?(?:password|passwd|pwd|app[_ ]?password|client[_-]?secret|secret|api[_-]?key|access[_-]?key|access[_-]?token|auth[_-]?token|' +
+      `account[_-]?key|shared[_-]?access[_-]?key)\\b${QUOTE}?\\s*[:=]\\s*${QUOTE}?((?:(?!${QUOTE})[^\\s"',;<>]){6,})`,
+    'i'
+  ),
+  1
+);
+
+export const emailDetector = regexDetector('email', new RegExp(`\\b[\\w.+-]+${AT}[\\w-]+(?:\\.[\\w-]+)*\\.[a-z]{2,}\\b`, 'i'));
+
+// Tenant, app and object IDs all look alike, so every GUID is masked
+export const guidDetector = regexDetector('guid', /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/i);
+
+// Catches secrets with no telltale prefix: long tokens that mix character classes and look random.
+export function entropyDetector(minLength = 24, minBitsPerChar = 4): RedactionDetector {
+  const entropy = (token: string) => {
+    const counts = new Map<string, number>();
+    for (const char of token) {
+      counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    return [...counts.values()].reduce((bits, count) => {
+      const p = count / token.length;
+      return bits - p * Math.log2(p);
+    }, 0);
+  };
+  // Requiring digits keeps long identifiers like `processTicksAndRejections` out
+  const mixed = (token: string) => /\d/.test(token) && /[a-z]/i.test(token);
+  // URLs and file paths are long and varied too, but rarely secret. Base64 keys contain `/` as well,
+  // so a path is told apart by its context: a scheme, a leading `/` or `~/`, or several segments with no `+`/`=`.
+  const pathLike = (text: string, token: string, start: number) => {
+    const word = (text.slice(0, start).match(/\S*$/)![0] + token).replace(/^["'`(\[<]+/, '');
+    return /:\/\//.test(word) || /^(?:\/|~\/|\.\.?\/)/.test(word) ||
+      (token.split('/').filter(Boolean).length >= 3 && !/[+=]/.test(token));
+  };
+  return {
+    name: 'high_entropy',
+    find(text) {
+      const matches: RedactionMatch[] = [];
+      for (const match of text.matchAll(/[A-Za-z0-9+/_\-=~]{2,}/g)) {
+        const token = match[0];
+        if (token.length >= minLength && mixed(token) && entropy(token) >= minBitsPerChar && !pathLike(text, token, match.index!)) {
+          matches.push({ start: match.index!, end: match.index! + token.length });
+        }
+      }
+      return matches;
+    },
+  };
+}
+
+export const builtInDetectors: RedactionDetector[] = [
+  privateKeyDetector,
+  connectionStringDetector,
+  jwtDetector,
+  bearerTokenDetector,
+  secretAssignmentDetector,
+  emailDetector,
+  guidDetector,
+  entropyDetector(),
+];
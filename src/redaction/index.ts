@@ -0,0 +1,40 @@
+// src/redaction/index.ts
+
+import * as path from 'path';
+import { RedactionDetector, Redactor } from './redactor';
+import { builtInDetectors } from './detectors';
+
+export * from './redactor';
+export * from './detectors';
+
+// A detector module may export its detector(s) as `default`, `detector` or `detectors`.
+function loadDetectorModule(modulePath: string): RedactionDetector[] {
+  const mod = require(modulePath);
+  const exported = mod.default ?? mod.detectors ?? mod.detector;
+  const detectors = Array.isArray(exported) ? exported : [exported];
+  for (const detector of detectors) {
+    if (!detector || typeof detector.name !== 'string' || typeof detector.find !== 'function') {
+      throw new Error(`Module ${modulePath} does not export a valid RedactionDetector`);
+    }
+  }
+  return detectors;
+}
+
+const listFromEnv = (value?: string) => (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+// REDACTION=off disables masking. REDACTION_DISABLED_DETECTORS turns off built-in detectors by name;
+// REDACTION_MODULES adds detectors from local modules (paths relative to the working directory).
+export function createRedactor(
+  enabled = process.env.REDACTION !== 'off',
+  disabled = listFromEnv(process.env.REDACTION_DISABLED_DETECTORS),
+  modules = listFromEnv(process.env.REDACTION_MODULES)
+): Redactor | undefined {
+  if (!enabled) {
+    return undefined;
+  }
+  const detectors = [
+    ...builtInDetectors.filter(detector => !disabled.includes(detector.name)),
+    ...modules.flatMap(modulePath => loadDetectorModule(path.resolve(modulePath))),
+  ];
+  return new Redactor(detectors);
+}
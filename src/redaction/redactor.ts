@@ -0,0 +1,68 @@
+// src/redaction/redactor.ts
+
+import { RedactionReport } from '../schemas';
+
+export interface RedactionMatch {
+  start: number;
+  end: number;
+}
+
+// --- Finds one kind of sensitive value (emails, bearer tokens, ...) in a piece of text ---
+export interface RedactionDetector {
+  /** Unique key, also used in the `[REDACTED:<name>]` placeholder and in reports. */
+  readonly name: string;
+  find(text: string): RedactionMatch[];
+}
+
+// Detector for anything a single regex can describe; `group` narrows the mask to one capture group
+// (e.g. only the value of `password=...`, not the key).
+export function regexDetector(name: string, pattern: RegExp, group = 0): RedactionDetector {
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+  return {
+    name,
+    find(text) {
+      const matches: RedactionMatch[] = [];
+      for (const match of text.matchAll(new RegExp(pattern.source, flags))) {
+        const value = match[group];
+        if (!value) continue;
+        const start = match.index! + (group ? match[0].indexOf(value) : 0);
+        matches.push({ start, end: start + value.length });
+      }
+      return matches;
+    },
+  };
+}
+
+// Masks everything the detectors find. The report only counts matches per detector; masked values
+// are never logged or returned.
+export class Redactor {
+  constructor(readonly detectors: RedactionDetector[]) {
+    const names = new Set<string>();
+    for (const detector of detectors) {
+      if (names.has(detector.name)) {
+        throw new Error(`Redaction detector "${detector.name}" is registered twice`);
+      }
+      names.add(detector.name);
+    }
+  }
+
+  redact(text: string): { text: string; report: RedactionReport } {
+    // Earlier detectors win where matches overlap
+    const taken: (RedactionMatch & { detector: string })[] = [];
+    for (const detector of this.detectors) {
+      for (const match of detector.find(text)) {
+        if (match.end > match.start && !taken.some(t => match.start < t.end && t.start < match.end)) {
+          taken.push({ ...match, detector: detector.name });
+        }
+      }
+    }
+
+    const report: RedactionReport = {};
+    let redacted = text;
+    for (const match of taken.sort((a, b) => b.start - a.start)) {
+      redacted = `${redacted.slice(0, match.start)}[REDACTED:${match.detector}]${redacted.slice(match.end)}`;
+      report[match.detector] = (report[match.detector] ?? 0) + 1;
+    }
+    return { text: redacted, report };
+  }
+}
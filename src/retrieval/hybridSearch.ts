@@ -0,0 +1,60 @@
+// src/retrieval/hybridSearch.ts
+
+import { StoredInsight } from '../schemas';
+import { matchesKeyword } from '../insightQuery';
+import { bm25Rank, insightSearchText } from './lexical';
+import { VectorIndex } from './vectorIndex';
+
+export interface HybridSearchOptions {
+    /** Share of the keyword score in the blend (0..1); the rest is vector similarity. */
+    keywordWeight: number;
+    /** Below this cosine similarity an insight only counts as a match through its keywords. */
+    minSimilarity: number;
+}
+
+export const DEFAULT_HYBRID_OPTIONS: HybridSearchOptions = { keywordWeight: 0.5, minSimilarity: 0.35 };
+
+// A plain substring hit ("auth" in "authentication") that BM25's whole-word matching misses
+const SUBSTRING_SCORE = 0.5;
+
+// --- Keyword (BM25 + substring) and embedding similarity, blended into one relevance score ---
+// Candidates keep their own type (e.g. ranked insights) and come back best first with `relevance` in 0..1.
+// Without an index, or if embedding the query fails, ranking falls back to keywords alone.
+export async function hybridSearch<T extends StoredInsight>(
+    query: string,
+    candidates: T[],
+    index: VectorIndex | undefined,
+    options: HybridSearchOptions = DEFAULT_HYBRID_OPTIONS
+): Promise<(T & { relevance: number })[]> {
+    const keyword = query.toLowerCase().trim();
+    const bm25 = bm25Rank(keyword, candidates, insightSearchText);
+    const maxBm25 = bm25[0]?.score ?? 0;
+    const keywordScores = new Map<string, number>(bm25.map(({ item, score }) => [item.originalId, score / maxBm25]));
+    for (const candidate of candidates) {
+        if (!keywordScores.has(candidate.originalId) && matchesKeyword(candidate, keyword)) {
+            keywordScores.set(candidate.originalId, SUBSTRING_SCORE);
+        }
+    }
+
+    let similarities = new Map<string, number>();
+    if (index?.size) {
+        try {
+            const [queryVector] = await index.model.embed([query]);
+            similarities = index.similarities(queryVector, candidates.map(candidate => candidate.originalId));
+        } catch (error: any) {
+            console.warn(`Embedding the search query failed, using keyword ranking only: ${error.message || error}`);
+        }
+    }
+    const semantic = similarities.size > 0;
+    const weight = semantic ? options.keywordWeight : 1;
+
+    return candidates
+        .map(candidate => {
+            const keywordScore = keywordScores.get(candidate.originalId) ?? 0;
+            const similarity = similarities.get(candidate.originalId) ?? 0;
+            const semanticScore = similarity >= options.minSimilarity ? similarity : 0;
+            return { ...candidate, relevance: weight * keywordScore + (1 - weight) * semanticScore };
+        })
+        .filter(candidate => candidate.relevance > 0)
+        .sort((a, b) => b.relevance - a.relevance);
+}
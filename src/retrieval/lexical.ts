@@ -0,0 +1,48 @@
+// src/retrieval/lexical.ts
+
+import { StoredInsight } from '../schemas';
+import { tokenize } from '../analysis/topics';
+
+// Everything about an insight a question might match: what the analysis says plus the (redacted) source text.
+export function insightSearchText(insight: StoredInsight): string {
+    const a = insight.analysis;
+    const analysis = 'error' in a ? [] : [a.summary, ...a.painPoints, ...(a.apis ?? [])];
+    return [...analysis, insight.content?.text ?? ''].join('\n');
+}
+
+export interface Scored<T> {
+    item: T;
+    score: number;
+}
+
+// --- Okapi BM25 over `docs`; only documents sharing at least one term with the query are returned, best first ---
+export function bm25Rank<T>(query: string, docs: T[], textOf: (doc: T) => string, k1 = 1.2, b = 0.75): Scored<T>[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (!queryTerms.length || !docs.length) {
+        return [];
+    }
+    const termCounts = docs.map(doc => {
+        const counts = new Map<string, number>();
+        for (const term of tokenize(textOf(doc))) {
+            counts.set(term, (counts.get(term) ?? 0) + 1);
+        }
+        return { counts, length: [...counts.values()].reduce((sum, n) => sum + n, 0) };
+    });
+    const avgLength = termCounts.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+    const idf = new Map(queryTerms.map(term => {
+        const df = termCounts.filter(doc => doc.counts.has(term)).length;
+        return [term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))];
+    }));
+
+    return docs
+        .map((item, i) => {
+            const { counts, length } = termCounts[i];
+            const score = queryTerms.reduce((sum, term) => {
+                const tf = counts.get(term) ?? 0;
+                return sum + idf.get(term)! * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * length / avgLength));
+            }, 0);
+            return { item, score };
+        })
+        .filter(scored => scored.score > 0)
+        .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,94 @@
+// src/retrieval/vectorIndex.ts
+
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { StoredInsight } from '../schemas';
+import { EmbeddingModel } from '../models/embeddings';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+import { insightSearchText } from './lexical';
+
+interface IndexEntry {
+    /** Hash of the embedded text, so unchanged insights aren't embedded again. */
+    hash: string;
+    vector: number[];
+}
+
+interface IndexFile {
+    modelId: string;
+    entries: Record<string, IndexEntry>;
+}
+
+// Summary, pain points and the start of the source text; long bodies add little but cost tokens.
+const EMBEDDED_CHARS = 2000;
+const EMBED_BATCH_SIZE = 16;
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// --- Insight embeddings keyed by insight ID, persisted as JSON next to the insight store ---
+// Vectors only compare within one embedding model, so the index starts over when the model changes.
+export class VectorIndex {
+    private readonly entries: Map<string, IndexEntry>;
+
+    constructor(readonly model: EmbeddingModel, private readonly file?: string) {
+        const stored = file ? readJsonFile<IndexFile | undefined>(file, undefined) : undefined;
+        this.entries = new Map(stored?.modelId === model.id ? Object.entries(stored.entries) : []);
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /** Embeds insights that are new or whose text changed; returns how many were embedded. */
+    async index(insights: StoredInsight[]): Promise<number> {
+        const pending = insights
+            .map(insight => {
+                const text = insightSearchText(insight).slice(0, EMBEDDED_CHARS);
+                return { id: insight.originalId, text, hash: createHash('sha256').update(text).digest('hex') };
+            })
+            .filter(item => item.text.trim() && this.entries.get(item.id)?.hash !== item.hash);
+
+        for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+            const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+            const vectors = await this.model.embed(batch.map(item => item.text));
+            batch.forEach((item, j) => this.entries.set(item.id, {
+                hash: item.hash,
+                // 4 decimals are plenty for ranking and keep the file a fraction of the size
+                vector: vectors[j].map(v => Math.round(v * 1e4) / 1e4),
+            }));
+        }
+        if (pending.length && this.file) {
+            writeJsonFile(this.file, { modelId: this.model.id, entries: Object.fromEntries(this.entries) } satisfies IndexFile);
+        }
+        return pending.length;
+    }
+
+    /** Cosine similarity of `vector` to each indexed insight among `ids` (missing ones are left out). */
+    similarities(vector: number[], ids: string[]): Map<string, number> {
+        const scores = new Map<string, number>();
+        for (const id of ids) {
+            const entry = this.entries.get(id);
+            if (entry) {
+                scores.set(id, cosineSimilarity(vector, entry.vector));
+            }
+        }
+        return scores;
+    }
+}
+
+// VECTOR_INDEX_FILE moves the index; VECTOR_INDEX=memory keeps it for the life of the process only.
+export function createVectorIndex(model: EmbeddingModel | undefined): VectorIndex | undefined {
+    if (!model) {
+        return undefined;
+    }
+    return process.env.VECTOR_INDEX === 'memory'
+        ? new VectorIndex(model)
+        : new VectorIndex(model, process.env.VECTOR_INDEX_FILE || path.join(DATA_DIR, 'vectors.json'));
+}
@@ -0,0 +1,153 @@
+// src/schemas.ts
+
+import { z } from 'zod'; // For schema validation
+import { FeedbackIdSchema } from './feedbackKey';
+
+// --- Define Zod Schemas shared by the ingestion client and the MCP server ---
+
+// Signals from the source itself, as far as the source has them; every field is optional.
+export const FeedbackMetadataSchema = z.object({
+    author: z.string().optional().describe('Display name or login of whoever posted the item'),
+    createdAt: z.string().datetime().optional(),
+    lastActivityAt: z.string().datetime().optional().describe('Last edit, answer or comment'),
+    score: z.number().int().optional().describe('Net votes (Stack Overflow)'),
+    reactionCount: z.number().int().optional().describe('Total reactions (GitHub)'),
+    viewCount: z.number().int().optional(),
+    answerCount: z.number().int().optional(),
+    commentCount: z.number().int().optional(),
+    isAnswered: z.boolean().optional().describe('Has an upvoted or accepted answer (Stack Overflow)'),
+    tags: z.array(z.string()).optional().describe('Question tags (Stack Overflow)'),
+    labels: z.array(z.string()).optional().describe('Issue labels (GitHub)'),
+    state: z.enum(['open', 'closed']).optional()
+});
+
+export const FeedbackItemSchema = z.object({
+    id: FeedbackIdSchema.describe('Composite key of the feedback item, see formatFeedbackKey'),
+    text: z.string().describe('The content of the feedback (title + body)'),
+    source: z.string().describe('Source of the feedback (e.g., Stack Overflow, GitHub Issues)'),
+    url: z.string().url().describe('URL to the original feedback item').optional(),
+    metadata: FeedbackMetadataSchema.optional()
+});
+
+export const AnalyzeFeedbackInputSchema = z.object({
+    feedback: z.array(FeedbackItemSchema).describe('An array of developer feedback items to analyze.')
+}).describe('Input for the analyzeFeedback MCP tool.');
+
+export const PrioritySchema = z.enum(['low', 'medium', 'high']);
+export const FeedbackCategorySchema = z.enum(['bug', 'docs_gap', 'feature_request', 'how_to']);
+export const ProductAreaSchema = z.enum(['bots', 'tabs', 'message_extensions', 'meetings', 'auth', 'manifest', 'other']);
+
+// Facets are optional here so insights analyzed before they existed still load;
+// fresh model output must include them (see AnalysisOutputSchema).
+export const AnalysisObjectSchema = z.object({
+    painPoints: z.array(z.string()).describe('Array of identified pain points.'),
+    summary: z.string().describe('A summary of the feedback.'),
+    priority: PrioritySchema.describe('Priority of the feedback.'),
+    category: FeedbackCategorySchema.optional().describe('Kind of feedback.'),
+    productArea: ProductAreaSchema.optional().describe('Teams platform area the feedback is about.'),
+    sentiment: z.number().min(-1).max(1).optional().describe('Sentiment from -1 (very negative) to 1 (very positive).'),
+    apis: z.array(z.string()).optional().describe('SDKs, packages or API names mentioned.')
+});
+
+// What the model has to return for a new analysis
+export const AnalysisOutputSchema = AnalysisObjectSchema.required();
+
+export const AnalysisFailureReasonSchema = z.enum([
+    'model_error',      // the model call itself failed (after retries)
+    'no_content',       // the model answered with nothing
+    'invalid_json',     // the answer never parsed as JSON
+    'schema_mismatch',  // valid JSON that never matched AnalysisObjectSchema
+    'budget_exhausted'  // the run's request/token budget ran out before this item
+]);
+
+// Failures that say nothing about the item itself, so the same text is worth another try
+export const RETRYABLE_FAILURE_REASONS: readonly AnalysisFailureReason[] = ['model_error', 'budget_exhausted'];
+
+export const AnalysisErrorSchema = z.object({
+    error: z.string().describe('Error message'),
+    reason: AnalysisFailureReasonSchema.optional().describe('Machine-readable failure category'),
+    issues: z.array(z.string()).optional().describe('Parse/validation problems from the last attempt'),
+    attempts: z.number().int().optional().describe('Model responses received, including repair attempts'),
+    rawOutput: z.any().optional().describe('Raw output from AI if available')
+});
+
+// Plain text of an item as prepared for analysis (see src/analysis/normalize.ts)
+export const NormalizedContentSchema = z.object({
+    text: z.string().describe('Prose without markup, template boilerplate, code blocks or stack traces'),
+    codeBlocks: z.array(z.string()).describe('Fenced (Markdown) or <pre> (HTML) code blocks'),
+    stackTraces: z.array(z.string()).describe('Stack traces found in the prose, with their error line'),
+    truncated: z.boolean().describe('Whether `text` was cut to the token budget')
+});
+
+// Number of values masked per detector, e.g. { email: 2, bearer_token: 1 } (see src/redaction)
+export const RedactionReportSchema = z.record(z.string(), z.number().int());
+
+export const AnalysisResultSchema = z.object({
+    originalId: FeedbackIdSchema.describe('Composite key of the original feedback item'),
+    originalSource: z.string().describe('Original source of the feedback'),
+    originalUrl: z.string().url().describe('URL to the original feedback item').optional(),
+    metadata: FeedbackMetadataSchema.optional().describe('Source metadata as of the last ingestion'),
+    content: NormalizedContentSchema.optional().describe('Normalized text the analysis was based on'),
+    redaction: RedactionReportSchema.optional().describe('What was masked before analysis; omitted when nothing was'),
+    analysis: z.union([AnalysisObjectSchema, AnalysisErrorSchema])
+});
+
+export const AnalyzeFeedbackOutputSchema = z.object({
+    analyzedResults: z.array(AnalysisResultSchema).describe('Array of analyzed feedback results.'),
+    stats: z.object({
+        cacheHits: z.number().int().describe('Items whose unchanged text reused an earlier analysis'),
+        freshAnalyses: z.number().int().describe('Items analyzed by the model in this run'),
+        failed: z.number().int().describe('Items whose analysis failed'),
+        redactedItems: z.number().int().optional().describe('Items in which sensitive values were masked'),
+        retryableIds: z.array(FeedbackIdSchema).optional().describe('Items that failed with a retryable reason (model error, budget); sources keep their cursor so these are fetched again')
+    }).optional()
+});
+
+// --- Triage: the team's own workflow state for an insight (see src/triage.ts) ---
+export const TriageStatusSchema = z.enum(['new', 'triaged', 'in_progress', 'resolved', 'wont_fix']);
+
+export const TriageNoteSchema = z.object({
+    at: z.string().datetime(),
+    by: z.string().describe('Who wrote the note'),
+    text: z.string()
+});
+
+// One status or assignee change; `from`/`to` are unset for "no assignee"
+export const TriageChangeSchema = z.object({
+    at: z.string().datetime(),
+    by: z.string().describe('Who made the change'),
+    field: z.enum(['status', 'assignee']),
+    from: z.string().optional(),
+    to: z.string().optional()
+});
+
+export const TriageSchema = z.object({
+    status: TriageStatusSchema,
+    assignee: z.string().optional(),
+    notes: z.array(TriageNoteSchema).describe('Internal notes, oldest first'),
+    history: z.array(TriageChangeSchema).describe('Status and assignee changes, oldest first')
+});
+
+// An analysis result as kept by the insight store
+export const StoredInsightSchema = AnalysisResultSchema.extend({
+    firstSeenAt: z.string().datetime().describe('When the item was first ingested'),
+    firstAnalyzedAt: z.string().datetime().optional().describe('When the item was first analyzed successfully; unset while every attempt failed'),
+    updatedAt: z.string().datetime().describe('When the item was last ingested/analyzed'),
+    triage: TriageSchema.optional().describe('Kept across re-ingestion; insights without it are "new"')
+});
+
+export type FeedbackMetadata = z.infer<typeof FeedbackMetadataSchema>;
+export type FeedbackItem = z.infer<typeof FeedbackItemSchema>;
+export type Priority = z.infer<typeof PrioritySchema>;
+export type FeedbackCategory = z.infer<typeof FeedbackCategorySchema>;
+export type ProductArea = z.infer<typeof ProductAreaSchema>;
+export type NormalizedContent = z.infer<typeof NormalizedContentSchema>;
+export type RedactionReport = z.infer<typeof RedactionReportSchema>;
+export type AnalysisObject = z.infer<typeof AnalysisObjectSchema>;
+export type AnalysisError = z.infer<typeof AnalysisErrorSchema>;
+export type AnalysisFailureReason = z.infer<typeof AnalysisFailureReasonSchema>;
+export type AnalysisResult = z.infer<typeof AnalysisResultSchema>;
+export type AnalyzeFeedbackOutput = z.infer<typeof AnalyzeFeedbackOutputSchema>;
+export type TriageStatus = z.infer<typeof TriageStatusSchema>;
+export type Triage = z.infer<typeof TriageSchema>;
+export type StoredInsight = z.infer<typeof StoredInsightSchema>;
@@ -0,0 +1,32 @@
+// src/sources/config.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+
+// Optional JSON file that picks which sources run and how they're configured, e.g.
+// { "modules": ["./internal/ticketsSource"], "sources": { "github": { "repo": "owner/name" }, "stackoverflow": { "enabled": false } } }
+const DEFAULT_CONFIG_PATH = 'feedback-sources.json';
+
+const FeedbackSourcesConfigSchema = z.object({
+  modules: z.array(z.string()).default([]).describe('Extra connector modules, resolved relative to the config file'),
+  sources: z.record(z.object({ enabled: z.boolean().optional() }).passthrough()).default({}),
+});
+
+export type FeedbackSourcesConfig = z.infer<typeof FeedbackSourcesConfigSchema> & { baseDir: string };
+
+export function loadFeedbackSourcesConfig(configPath = process.env.FEEDBACK_SOURCES_CONFIG): FeedbackSourcesConfig {
+  const file = path.resolve(configPath || DEFAULT_CONFIG_PATH);
+  if (!fs.existsSync(file)) {
+    if (configPath) {
+      throw new Error(`Feedback sources config not found: ${file}`);
+    }
+    return { ...FeedbackSourcesConfigSchema.parse({}), baseDir: process.cwd() };
+  }
+
+  const parsed = FeedbackSourcesConfigSchema.safeParse(JSON.parse(fs.readFileSync(file, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid feedback sources config ${file}: ${parsed.error.message}`);
+  }
+  return { ...parsed.data, baseDir: path.dirname(file) };
+}
@@ -0,0 +1,18 @@
+// src/sources/cursorStore.ts
+
+import * as path from 'path';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+import { FeedbackCursor } from './feedbackSource';
+
+// Last-seen position of each source, keyed by source name, so the next run only fetches newer items.
+export type SourceCursors = Record<string, FeedbackCursor>;
+
+const CURSORS_FILE = process.env.SOURCE_CURSORS_FILE || path.join(DATA_DIR, 'source-cursors.json');
+
+export function loadSourceCursors(file = CURSORS_FILE): SourceCursors {
+  return readJsonFile<SourceCursors>(file, {});
+}
+
+export function saveSourceCursors(cursors: SourceCursors, file = CURSORS_FILE): void {
+  writeJsonFile(file, cursors);
+}
@@ -0,0 +1,109 @@
+// src/sources/feedbackSource.ts
+
+import { z } from 'zod';
+import { FeedbackItem, FeedbackItemSchema } from '../schemas';
+import { parseFeedbackKey } from '../feedbackKey';
+
+// Opaque, source-specific position (e.g. last `activity_date` or `since` timestamp) persisted between runs.
+export type FeedbackCursor = string;
+
+export interface FeedbackFetchResult {
+  items: FeedbackItem[];
+  /** Cursor to resume from next run; omit to keep the previous one. */
+  cursor?: FeedbackCursor;
+}
+
+// --- A connector that pulls developer feedback from one place (Stack Overflow, GitHub, an internal tracker...) ---
+export interface FeedbackSource<TConfig extends z.ZodTypeAny = z.ZodTypeAny> {
+  /** Unique key used to enable/disable and configure the source, e.g. `stackoverflow`. */
+  readonly name: string;
+  readonly description?: string;
+  /** Schema for the per-source options found under `sources.<name>` in the sources config. */
+  readonly configSchema: TConfig;
+  /** Fetches items that are new or changed since `cursor` (everything available when no cursor is given). */
+  fetch(config: z.infer<TConfig>, cursor?: FeedbackCursor): Promise<FeedbackFetchResult>;
+}
+
+// The cursor to resume from after reading items oldest-first, given their positions in read order (`updated_at`,
+// `last_activity_date`, ...). A read cut short by a max-items cap may have stopped partway through items sharing
+// the last position, so it resumes from the position before that; the repeated items come back as cache hits.
+export function resumePosition<T extends string | number>(positions: T[], truncated: boolean): T | undefined {
+  const last = positions[positions.length - 1];
+  if (!truncated) {
+    return last;
+  }
+  const earlier = positions.filter(position => position < last);
+  return earlier.length ? earlier[earlier.length - 1] : last;
+}
+
+// Every source config accepts `enabled`; the rest is validated by the connector's own schema.
+export type FeedbackSourceSettings = { enabled?: boolean; [option: string]: unknown };
+
+export class FeedbackSourceRegistry {
+  private readonly sources = new Map<string, FeedbackSource>();
+
+  register(source: FeedbackSource): this {
+    if (this.sources.has(source.name)) {
+      throw new Error(`Feedback source "${source.name}" is already registered`);
+    }
+    this.sources.set(source.name, source);
+    return this;
+  }
+
+  get(name: string): FeedbackSource | undefined {
+    return this.sources.get(name);
+  }
+
+  list(): FeedbackSource[] {
+    return [...this.sources.values()];
+  }
+
+  // Sources are enabled by default; a config entry with `enabled: false` turns one off.
+  enabled(settings: Record<string, FeedbackSourceSettings>): FeedbackSource[] {
+    return this.list().filter(source => settings[source.name]?.enabled !== false);
+  }
+
+  // Fetches every enabled source from its cursor. A failing source is logged and skipped so the others
+  // still ingest; its cursor is returned unchanged so the next run retries from the same position.
+  async fetchAll(
+    settings: Record<string, FeedbackSourceSettings>,
+    cursors: Record<string, FeedbackCursor> = {}
+  ): Promise<{ items: FeedbackItem[]; cursors: Record<string, FeedbackCursor> }> {
+    for (const name of Object.keys(settings)) {
+      if (!this.sources.has(name)) {
+        console.warn(`⚠️ No feedback source registered as "${name}", ignoring its config.`);
+      }
+    }
+
+    const allFeedback: FeedbackItem[] = [];
+    const nextCursors = { ...cursors };
+    for (const source of this.enabled(settings)) {
+      try {
+        const { enabled: _enabled, ...options } = settings[source.name] ?? {};
+        const config = source.configSchema.parse(options);
+        const { items, cursor } = await source.fetch(config, cursors[source.name]);
+        const valid = items.filter(item => {
+          const result = FeedbackItemSchema.safeParse(item);
+          if (!result.success) {
+            console.warn(`⚠️ Dropping invalid item from ${source.name}:`, result.error.issues);
+            return false;
+          }
+          // Keys must be namespaced by the connector that produced them, or two sources could collide
+          if (parseFeedbackKey(result.data.id)?.source !== source.name) {
+            console.warn(`⚠️ Dropping item "${result.data.id}" from ${source.name}: key must start with "${source.name}:"`);
+            return false;
+          }
+          return true;
+        });
+        console.log(`📥 ${source.name}: ${valid.length} feedback items`);
+        allFeedback.push(...valid);
+        if (cursor !== undefined) {
+          nextCursors[source.name] = cursor;
+        }
+      } catch (err) {
+        console.error(`❌ Feedback source "${source.name}" failed:`, err);
+      }
+    }
+    return { items: allFeedback, cursors: nextCursors };
+  }
+}
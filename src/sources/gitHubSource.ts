@@ -0,0 +1,82 @@
+// src/sources/gitHubSource.ts
+
+import fetch from 'node-fetch';
+import { z } from 'zod';
+import { FeedbackSource, resumePosition } from './feedbackSource';
+import { formatFeedbackKey } from '../feedbackKey';
+
+const GitHubConfigSchema = z.object({
+  repo: z.string().regex(/^[^/]+\/[^/]+$/, 'Expected "owner/name"').default('MicrosoftDocs/msteams-docs'),
+  token: z.string().optional().describe('Defaults to GITHUB_TOKEN'),
+  pageSize: z.number().int().min(1).max(100).default(100).describe('GitHub `per_page`'),
+  maxItems: z.number().int().positive().default(500).describe('Stop paging once this many issues were read'),
+});
+
+// Picks the rel="next" URL out of a header like `<https://api.github.com/...&page=2>; rel="next", <...>; rel="last"`
+function nextPageUrl(linkHeader: string | null): string | undefined {
+  const next = linkHeader?.split(',').find(part => /rel="next"/.test(part));
+  return next?.match(/<([^>]+)>/)?.[1];
+}
+
+export const gitHubSource: FeedbackSource<typeof GitHubConfigSchema> = {
+  name: 'github',
+  description: 'Issues from a GitHub repository',
+  configSchema: GitHubConfigSchema,
+
+  // Cursor: the newest `updated_at` seen (ISO 8601), passed back as `since` so only issues
+  // created or updated after the last run are returned. Every run reads oldest-first, the first one
+  // included, so when `maxItems` cuts a read short the next run continues where it stopped.
+  async fetch(config, cursor) {
+    const token = config.token ?? process.env.GITHUB_TOKEN;
+    const params = new URLSearchParams({
+      // The API defaults to open issues only; closing an issue is an update we want to see too
+      state: 'all',
+      sort: 'updated',
+      direction: 'asc',
+      per_page: String(config.pageSize),
+    });
+    if (cursor) {
+      params.set('since', cursor);
+    }
+
+    const issues: any[] = [];
+    let url: string | undefined = `https://api.github.com/repos/${config.repo}/issues?${params}`;
+    while (url && issues.length < config.maxItems) {
+      const res = await fetch(url, {
+        headers: token ? { Authorization: `token ${token}` } : {},
+      });
+      const data = await res.json();
+      if (!Array.isArray(data)) {
+        throw new Error(`GitHub response invalid${data?.message ? `: ${data.message}` : ''}`);
+      }
+      issues.push(...data);
+      url = nextPageUrl(res.headers.get('link'));
+    }
+
+    // `since` is inclusive; drop what the previous run already saw at exactly the cursor timestamp.
+    const fresh = issues
+      .slice(0, config.maxItems)
+      .filter((issue: any) => !cursor || issue.updated_at > cursor);
+    const truncated = !!url || issues.length > config.maxItems;
+    const latest = resumePosition<string>(fresh.map((issue: any) => issue.updated_at), truncated) ?? cursor;
+    return {
+      // The issues endpoint lists pull requests too; they aren't feedback
+      items: fresh.filter((issue: any) => !issue.pull_request).map((issue: any) => ({
+        id: formatFeedbackKey({ source: 'github', scope: config.repo, externalId: String(issue.number) }),
+        text: `${issue.title} ${issue.body}`,
+        source: 'GitHub Issues',
+        url: issue.html_url,
+        metadata: {
+          author: issue.user?.login,
+          createdAt: issue.created_at,
+          lastActivityAt: issue.updated_at,
+          reactionCount: issue.reactions?.total_count,
+          commentCount: issue.comments,
+          labels: issue.labels?.map((label: any) => (typeof label === 'string' ? label : label.name)),
+          state: issue.state,
+        },
+      })),
+      cursor: latest,
+    };
+  },
+};
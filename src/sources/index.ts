@@ -0,0 +1,35 @@
+// src/sources/index.ts
+
+import * as path from 'path';
+import { FeedbackSource, FeedbackSourceRegistry } from './feedbackSource';
+import { FeedbackSourcesConfig } from './config';
+import { stackOverflowSource } from './stackOverflowSource';
+import { gitHubSource } from './gitHubSource';
+
+export * from './feedbackSource';
+export * from './config';
+
+// Built-in connectors, registered before any configured modules.
+const builtInSources: FeedbackSource<any>[] = [stackOverflowSource, gitHubSource];
+
+// A connector module may export its source(s) as `default`, `source` or `sources`.
+function loadSourceModule(modulePath: string): FeedbackSource[] {
+  const mod = require(modulePath);
+  const exported = mod.default ?? mod.sources ?? mod.source;
+  const sources = Array.isArray(exported) ? exported : [exported];
+  for (const source of sources) {
+    if (!source || typeof source.name !== 'string' || typeof source.fetch !== 'function' || !source.configSchema) {
+      throw new Error(`Module ${modulePath} does not export a valid FeedbackSource`);
+    }
+  }
+  return sources;
+}
+
+export function createFeedbackSourceRegistry(config: FeedbackSourcesConfig): FeedbackSourceRegistry {
+  const registry = new FeedbackSourceRegistry();
+  builtInSources.forEach(source => registry.register(source));
+  for (const modulePath of config.modules) {
+    loadSourceModule(path.resolve(config.baseDir, modulePath)).forEach(source => registry.register(source));
+  }
+  return registry;
+}
@@ -0,0 +1,94 @@
+// src/sources/stackOverflowSource.ts
+
+import fetch from 'node-fetch';
+import { z } from 'zod';
+import { FeedbackSource, resumePosition } from './feedbackSource';
+import { formatFeedbackKey } from '../feedbackKey';
+import { sleep } from '../utils/sleep';
+
+const StackOverflowConfigSchema = z.object({
+  site: z.string().default('stackoverflow'),
+  tagged: z.string().default('microsoft-teams'),
+  apiKey: z.string().optional().describe('Defaults to STACK_OVERFLOW_API_KEY'),
+  pageSize: z.number().int().min(1).max(100).default(100).describe('Stack Exchange `pagesize`'),
+  maxItems: z.number().int().positive().default(500).describe('Stop paging once this many questions were read'),
+});
+
+export const stackOverflowSource: FeedbackSource<typeof StackOverflowConfigSchema> = {
+  name: 'stackoverflow',
+  description: 'Recently active Stack Exchange questions for a tag',
+  configSchema: StackOverflowConfigSchema,
+
+  // Cursor: the newest `last_activity_date` seen (epoch seconds). `min` applies to the sort field,
+  // so with `sort=activity` only questions active since the last run come back. Every run reads oldest-first,
+  // the first one included, so when `maxItems` cuts a read short the next run continues where it stopped.
+  async fetch(config, cursor) {
+    const params = new URLSearchParams({
+      order: 'asc',
+      sort: 'activity',
+      tagged: config.tagged,
+      site: config.site,
+      filter: 'withbody',
+      pagesize: String(config.pageSize),
+    });
+    const apiKey = config.apiKey ?? process.env.STACK_OVERFLOW_API_KEY;
+    if (apiKey) {
+      params.set('key', apiKey);
+    }
+    const since = cursor ? Number(cursor) : undefined;
+    if (since) {
+      params.set('min', String(since));
+    }
+
+    const questions: any[] = [];
+    let hasMore = false;
+    for (let page = 1; questions.length < config.maxItems; page++) {
+      params.set('page', String(page));
+      const res = await fetch(`https://api.stackexchange.com/2.3/questions?${params}`);
+      const data = await res.json();
+      if (data.error_id) {
+        throw new Error(`Stack Exchange error ${data.error_id} (${data.error_name}): ${data.error_message}`);
+      }
+      if (!Array.isArray(data.items)) {
+        throw new Error('Stack Overflow response invalid');
+      }
+      questions.push(...data.items);
+      hasMore = !!data.has_more;
+      if (!hasMore) {
+        break;
+      }
+      // The API asks clients to wait `backoff` seconds before hitting the same method again
+      if (data.backoff) {
+        console.log(`⏳ Stack Exchange requested a ${data.backoff}s backoff`);
+        await sleep(data.backoff * 1000);
+      }
+    }
+
+    // `min` is inclusive; drop what the previous run already saw at exactly the cursor second.
+    const fresh = questions
+      .slice(0, config.maxItems)
+      .filter((q: any) => !since || q.last_activity_date > since);
+    const latest = resumePosition<number>(fresh.map((q: any) => q.last_activity_date), hasMore || questions.length > config.maxItems);
+    const isoDate = (epochSeconds?: number) => (epochSeconds ? new Date(epochSeconds * 1000).toISOString() : undefined);
+    return {
+      items: fresh.map((q: any) => ({
+        id: formatFeedbackKey({ source: 'stackoverflow', scope: config.site, externalId: String(q.question_id) }),
+        text: `${q.title} ${q.body}`,
+        source: 'Stack Overflow',
+        url: q.link ?? `https://stackoverflow.com/questions/${q.question_id}`,
+        metadata: {
+          author: q.owner?.display_name,
+          createdAt: isoDate(q.creation_date),
+          lastActivityAt: isoDate(q.last_activity_date),
+          score: q.score,
+          viewCount: q.view_count,
+          answerCount: q.answer_count,
+          isAnswered: q.is_answered,
+          tags: q.tags,
+          state: q.closed_date ? 'closed' as const : 'open' as const,
+        },
+      })),
+      cursor: latest ? String(latest) : cursor,
+    };
+  },
+};
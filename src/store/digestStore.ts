@@ -0,0 +1,98 @@
+// src/store/digestStore.ts
+
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { ConversationReference } from '@microsoft/teams.api';
+import { InsightFilter } from '../insightQuery';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+// A conversation's recurring `/digest`; at most one per conversation.
+export interface DigestSchedule {
+  id: string;
+  frequency: DigestFrequency;
+  /** Local time of day to post at, "HH:MM" (24h). */
+  time: string;
+  /** Day of the week for weekly digests, 0 = Sunday. */
+  weekday?: number;
+  /** IANA time zone `time` and `weekday` are in, e.g. "Europe/Berlin". */
+  timezone: string;
+  /** Keyword and facet filters as typed (may be empty); parsed into `keyword` and `filter`. */
+  query: string;
+  keyword: string;
+  filter: InsightFilter;
+  conversation: ConversationReference;
+  createdBy?: string;
+  createdAt: string;
+  /** The previous digest covered insights first analyzed up to here; the next one starts from it. */
+  lastSentAt?: string;
+  nextRunAt: string;
+}
+
+// --- Digest schedules of every conversation, persisted as one JSON file so they survive restarts ---
+export class DigestStore {
+  private schedules: DigestSchedule[];
+
+  constructor(private readonly file?: string) {
+    this.schedules = file ? readJsonFile<DigestSchedule[]>(file, []) : [];
+  }
+
+  /** Registers the conversation's digest, replacing an earlier one (but keeping where it left off). */
+  set(schedule: Omit<DigestSchedule, 'id' | 'createdAt' | 'lastSentAt'>): DigestSchedule {
+    const previous = this.get(schedule.conversation.conversation.id);
+    const saved: DigestSchedule = {
+      ...schedule,
+      id: randomUUID().slice(0, 8),
+      createdAt: new Date().toISOString(),
+      lastSentAt: previous?.lastSentAt,
+    };
+    this.schedules = [...this.schedules.filter(s => s !== previous), saved];
+    this.save();
+    return saved;
+  }
+
+  get(conversationId: string): DigestSchedule | undefined {
+    return this.schedules.find(s => s.conversation.conversation.id === conversationId);
+  }
+
+  remove(conversationId: string): DigestSchedule | undefined {
+    const removed = this.get(conversationId);
+    if (removed) {
+      this.schedules = this.schedules.filter(s => s !== removed);
+      this.save();
+    }
+    return removed;
+  }
+
+  list(): DigestSchedule[] {
+    return [...this.schedules];
+  }
+
+  /** Records a run; ignored if the schedule was removed or replaced meanwhile. */
+  update(id: string, changes: Pick<DigestSchedule, 'nextRunAt'> & Partial<Pick<DigestSchedule, 'lastSentAt'>>): void {
+    const schedule = this.schedules.find(s => s.id === id);
+    if (schedule) {
+      Object.assign(schedule, changes);
+      this.save();
+    }
+  }
+
+  private save(): void {
+    if (this.file) {
+      writeJsonFile(this.file, this.schedules);
+    }
+  }
+}
+
+// DIGEST_STORE=memory forgets digests on restart (handy for local testing).
+export function createDigestStore(kind = process.env.DIGEST_STORE || 'file'): DigestStore {
+  switch (kind) {
+    case 'memory':
+      return new DigestStore();
+    case 'file':
+      return new DigestStore(process.env.DIGESTS_FILE || path.join(DATA_DIR, 'digests.json'));
+    default:
+      throw new Error(`Unknown DIGEST_STORE "${kind}" (expected "file" or "memory")`);
+  }
+}
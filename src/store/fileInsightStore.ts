@@ -0,0 +1,26 @@
+// src/store/fileInsightStore.ts
+
+import { StoredInsight, StoredInsightSchema } from '../schemas';
+import { readJsonFile, writeJsonFile } from '../utils/jsonFile';
+import { MemoryInsightStore } from './memoryInsightStore';
+
+// Keeps the working set in memory and rewrites a JSON file after every change, so insights
+// survive restarts. Fine for the few thousand items a team triages; swap in a database beyond that.
+export class FileInsightStore extends MemoryInsightStore {
+  constructor(private readonly file: string) {
+    super();
+    for (const raw of readJsonFile<unknown[]>(file, [])) {
+      const parsed = StoredInsightSchema.safeParse(raw);
+      if (parsed.success) {
+        this.insights.set(parsed.data.originalId, parsed.data);
+      } else {
+        console.warn(`Skipping invalid insight in ${file}:`, parsed.error.issues);
+      }
+    }
+    console.log(`Loaded ${this.insights.size} insights from ${file}`);
+  }
+
+  protected async persist(): Promise<void> {
+    writeJsonFile(this.file, [...this.insights.values()] satisfies StoredInsight[]);
+  }
+}
@@ -0,0 +1,38 @@
+// src/store/insightStore.ts
+
+import * as path from 'path';
+import { AnalysisResult, StoredInsight, Triage } from '../schemas';
+import { DATA_DIR } from '../utils/jsonFile';
+import { InsightFilter } from '../insightQuery';
+import { MemoryInsightStore } from './memoryInsightStore';
+import { FileInsightStore } from './fileInsightStore';
+
+// --- Storage for analyzed insights, keyed by the item's composite ID ---
+export interface InsightStore {
+  /** Inserts new items and replaces existing ones with the same `originalId`, keeping their triage. */
+  upsert(results: AnalysisResult[]): Promise<StoredInsight[]>;
+  /** Replaces an insight's triage record without counting as a re-ingestion; undefined if there is no such insight. */
+  setTriage(id: string, triage: Triage): Promise<StoredInsight | undefined>;
+  get(id: string): Promise<StoredInsight | undefined>;
+  /** Insights matching the facet filter (all when omitted), least recently ingested first. */
+  list(filter?: InsightFilter): Promise<StoredInsight[]>;
+  count(): Promise<number>;
+}
+
+// An insight counts as new in the upsert that first analyzed it successfully, not when it was first seen:
+// an item whose first attempt failed (and was retried) is new in the run that finally analyzed it.
+export function isNewlyAnalyzed(insight: StoredInsight): boolean {
+  return insight.firstAnalyzedAt === insight.updatedAt;
+}
+
+// INSIGHT_STORE=memory keeps insights for the life of the process only; the default persists them to disk.
+export function createInsightStore(kind = process.env.INSIGHT_STORE || 'file'): InsightStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryInsightStore();
+    case 'file':
+      return new FileInsightStore(process.env.INSIGHT_STORE_FILE || path.join(DATA_DIR, 'insights.json'));
+    default:
+      throw new Error(`Unknown INSIGHT_STORE "${kind}" (expected "memory" or "file")`);
+  }
+}
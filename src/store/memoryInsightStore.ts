@@ -0,0 +1,66 @@
+// src/store/memoryInsightStore.ts
+
+import { AnalysisResult, RETRYABLE_FAILURE_REASONS, StoredInsight, Triage } from '../schemas';
+import { InsightStore } from './insightStore';
+import { InsightFilter, matchesFilter } from '../insightQuery';
+
+export class MemoryInsightStore implements InsightStore {
+  // Map iteration order is insertion order; re-ingested items are moved to the end so
+  // the list stays ordered by last ingestion.
+  protected readonly insights = new Map<string, StoredInsight>();
+
+  async upsert(results: AnalysisResult[]): Promise<StoredInsight[]> {
+    const now = new Date().toISOString();
+    const stored = results.map(result => {
+      const existing = this.insights.get(result.originalId);
+      // A model outage or an exhausted budget says nothing about the item, so an earlier successful
+      // analysis (and the text it was based on) is kept; only the source metadata is refreshed
+      const keepAnalysis = existing && !('error' in existing.analysis) && 'error' in result.analysis &&
+        !!result.analysis.reason && RETRYABLE_FAILURE_REASONS.includes(result.analysis.reason);
+      const insight: StoredInsight = {
+        ...result,
+        ...(keepAnalysis && { content: existing.content, redaction: existing.redaction, analysis: existing.analysis }),
+        firstSeenAt: existing?.firstSeenAt ?? now,
+        // Insights stored before this field existed were analyzed when first seen
+        firstAnalyzedAt: existing?.firstAnalyzedAt
+          ?? (existing && !('error' in existing.analysis) ? existing.firstSeenAt : undefined)
+          ?? ('error' in result.analysis ? undefined : now),
+        updatedAt: now,
+        triage: existing?.triage,
+      };
+      this.insights.delete(result.originalId);
+      this.insights.set(result.originalId, insight);
+      return insight;
+    });
+    await this.persist();
+    return stored;
+  }
+
+  async setTriage(id: string, triage: Triage): Promise<StoredInsight | undefined> {
+    const existing = this.insights.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    // Same key, so the insight keeps its place in the ingestion order
+    const insight: StoredInsight = { ...existing, triage };
+    this.insights.set(id, insight);
+    await this.persist();
+    return insight;
+  }
+
+  async get(id: string): Promise<StoredInsight | undefined> {
+    return this.insights.get(id);
+  }
+
+  async list(filter?: InsightFilter): Promise<StoredInsight[]> {
+    const insights = [...this.insights.values()];
+    return filter ? insights.filter(insight => matchesFilter(insight, filter)) : insights;
+  }
+
+  async count(): Promise<number> {
+    return this.insights.size;
+  }
+
+  // Hook for persistent subclasses; nothing to do in memory.
+  protected async persist(): Promise<void> {}
+}
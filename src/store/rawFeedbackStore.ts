@@ -0,0 +1,42 @@
+// src/store/rawFeedbackStore.ts
+
+import * as path from 'path';
+import { FeedbackItem } from '../schemas';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+export type RawFeedback = FeedbackItem & { receivedAt: string };
+
+// --- Original, unredacted feedback as it arrived at the ingestion endpoint ---
+// Everything else (insights, cache, Teams cards, model prompts) only ever sees redacted text. This file
+// is owner-readable only, and the server exposes it solely to requests carrying RAW_STORE_TOKEN.
+export class RawFeedbackStore {
+  private readonly items: Record<string, RawFeedback>;
+
+  constructor(private readonly file: string) {
+    this.items = readJsonFile<Record<string, RawFeedback>>(file, {});
+  }
+
+  put(feedback: FeedbackItem[]): void {
+    const receivedAt = new Date().toISOString();
+    for (const item of feedback) {
+      this.items[item.id] = { ...item, receivedAt };
+    }
+    writeJsonFile(this.file, this.items, { private: true });
+  }
+
+  get(id: string): RawFeedback | undefined {
+    return this.items[id];
+  }
+}
+
+// RAW_FEEDBACK_STORE=off keeps no originals at all.
+export function createRawFeedbackStore(kind = process.env.RAW_FEEDBACK_STORE || 'file'): RawFeedbackStore | undefined {
+  switch (kind) {
+    case 'off':
+      return undefined;
+    case 'file':
+      return new RawFeedbackStore(process.env.RAW_FEEDBACK_STORE_FILE || path.join(DATA_DIR, 'raw', 'feedback.json'));
+    default:
+      throw new Error(`Unknown RAW_FEEDBACK_STORE "${kind}" (expected "file" or "off")`);
+  }
+}
@@ -0,0 +1,29 @@
+// src/store/snapshotStore.ts
+
+import * as path from 'path';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+// What one ingestion run added, so trends can be computed over any window of past runs.
+export interface IngestionSnapshot {
+  takenAt: string;
+  /** Insights analyzed successfully for the first time in this run. */
+  newInsights: number;
+  /** Already known insights that were re-ingested (e.g. edited or with new activity). */
+  updatedInsights: number;
+  /** New insights per category; failed analyses are not counted. */
+  byCategory: Record<string, number>;
+}
+
+const SNAPSHOTS_FILE = process.env.SNAPSHOTS_FILE || path.join(DATA_DIR, 'snapshots.json');
+// Twice the longest /trends window plus slack; older runs are dropped on append.
+const RETENTION_DAYS = 180;
+
+export function loadSnapshots(file = SNAPSHOTS_FILE): IngestionSnapshot[] {
+  return readJsonFile<IngestionSnapshot[]>(file, []);
+}
+
+export function appendSnapshot(snapshot: IngestionSnapshot, file = SNAPSHOTS_FILE): void {
+  const cutoff = Date.parse(snapshot.takenAt) - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const kept = loadSnapshots(file).filter(s => Date.parse(s.takenAt) >= cutoff);
+  writeJsonFile(file, [...kept, snapshot]);
+}
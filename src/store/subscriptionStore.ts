@@ -0,0 +1,93 @@
+// src/store/subscriptionStore.ts
+
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { ConversationReference } from '@microsoft/teams.api';
+import { StoredInsight } from '../schemas';
+import { InsightFilter, matchesFilter, matchesKeyword, parseInsightQuery } from '../insightQuery';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+// A standing `/subscribe` query; new insights that match it are pushed to the conversation it came from.
+export interface Subscription {
+  id: string;
+  /** The query as the user typed it, e.g. "sso priority:high area:auth". */
+  query: string;
+  /** Lowercased free-text part of the query; empty for facet-only subscriptions. */
+  keyword: string;
+  filter: InsightFilter;
+  /** Where to deliver alerts; kept whole so channels and group chats work after a restart. */
+  conversation: ConversationReference;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export function subscriptionMatches(subscription: Subscription, insight: StoredInsight): boolean {
+  return matchesFilter(insight, subscription.filter) && (!subscription.keyword || matchesKeyword(insight, subscription.keyword));
+}
+
+// --- Subscriptions of every conversation, persisted as one JSON file ---
+export class SubscriptionStore {
+  private subscriptions: Subscription[];
+
+  constructor(private readonly file?: string) {
+    this.subscriptions = file ? readJsonFile<Subscription[]>(file, []) : [];
+  }
+
+  /** Adds the query for the conversation; subscribing to the same query twice returns the existing subscription. */
+  add(query: string, conversation: ConversationReference, createdBy?: string): { subscription?: Subscription; errors: string[] } {
+    const { keyword, filter, errors } = parseInsightQuery(query);
+    if (errors.length) {
+      return { errors };
+    }
+    const normalized = query.trim().replace(/\s+/g, ' ');
+    const existing = this.subscriptions.find(s => s.conversation.conversation.id === conversation.conversation.id
+      && s.query.toLowerCase() === normalized.toLowerCase());
+    if (existing) {
+      return { subscription: existing, errors: [] };
+    }
+    const subscription: Subscription = {
+      id: randomUUID().slice(0, 8),
+      query: normalized,
+      keyword,
+      filter,
+      conversation,
+      createdBy,
+      createdAt: new Date().toISOString(),
+    };
+    this.subscriptions.push(subscription);
+    this.save();
+    return { subscription, errors: [] };
+  }
+
+  /** Removes one subscription of the conversation by ID, or all of them when no ID is given. */
+  remove(conversationId: string, id?: string): Subscription[] {
+    const removed = this.subscriptions.filter(s => s.conversation.conversation.id === conversationId && (!id || s.id === id));
+    if (removed.length) {
+      this.subscriptions = this.subscriptions.filter(s => !removed.includes(s));
+      this.save();
+    }
+    return removed;
+  }
+
+  list(conversationId?: string): Subscription[] {
+    return this.subscriptions.filter(s => !conversationId || s.conversation.conversation.id === conversationId);
+  }
+
+  private save(): void {
+    if (this.file) {
+      writeJsonFile(this.file, this.subscriptions);
+    }
+  }
+}
+
+// SUBSCRIPTION_STORE=memory forgets subscriptions on restart (handy for local testing).
+export function createSubscriptionStore(kind = process.env.SUBSCRIPTION_STORE || 'file'): SubscriptionStore {
+  switch (kind) {
+    case 'memory':
+      return new SubscriptionStore();
+    case 'file':
+      return new SubscriptionStore(process.env.SUBSCRIPTIONS_FILE || path.join(DATA_DIR, 'subscriptions.json'));
+    default:
+      throw new Error(`Unknown SUBSCRIPTION_STORE "${kind}" (expected "file" or "memory")`);
+  }
+}
@@ -0,0 +1,95 @@
+// src/store/topicStore.ts
+
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+export interface StoredTopic {
+  id: string;
+  /** Mean embedding of every pain point that joined the topic. */
+  centroid: number[];
+  /** Pain points that have joined, for the running mean. */
+  size: number;
+  createdAt: string;
+}
+
+export interface TopicAssignment {
+  topicId: string;
+  /** Similarity to the topic's centroid when the pain point joined; the best-scoring member labels the topic. */
+  score: number;
+}
+
+interface TopicsFile {
+  modelId: string;
+  similarityThreshold: number;
+  topics: StoredTopic[];
+  /** Keyed by pain point (see painPointKey in src/analysis/topics.ts). */
+  assignments: Record<string, TopicAssignment>;
+}
+
+// --- Topics and which topic each pain point belongs to, so topic IDs and members survive later ingestions ---
+export class TopicStore {
+  private state: TopicsFile;
+
+  constructor(private readonly file?: string) {
+    this.state = (file && readJsonFile<TopicsFile | undefined>(file, undefined)) || TopicStore.empty('', 0);
+  }
+
+  private static empty(modelId: string, similarityThreshold: number): TopicsFile {
+    return { modelId, similarityThreshold, topics: [], assignments: {} };
+  }
+
+  /** Starts over when the embedding model or the threshold changed, since the old centroids no longer apply. */
+  prepare(modelId: string, similarityThreshold: number): void {
+    if (this.state.modelId !== modelId || this.state.similarityThreshold !== similarityThreshold) {
+      this.state = TopicStore.empty(modelId, similarityThreshold);
+    }
+  }
+
+  topics(): StoredTopic[] {
+    return this.state.topics;
+  }
+
+  assignment(key: string): TopicAssignment | undefined {
+    return this.state.assignments[key];
+  }
+
+  createTopic(centroid: number[]): StoredTopic {
+    const topic: StoredTopic = { id: randomUUID().slice(0, 8), centroid, size: 0, createdAt: new Date().toISOString() };
+    this.state.topics.push(topic);
+    return topic;
+  }
+
+  assign(key: string, assignment: TopicAssignment): void {
+    this.state.assignments[key] = assignment;
+  }
+
+  /** Forgets pain points that are gone (e.g. re-analyzed differently) and topics left without members. */
+  prune(currentKeys: Set<string>): void {
+    for (const key of Object.keys(this.state.assignments)) {
+      if (!currentKeys.has(key)) {
+        delete this.state.assignments[key];
+      }
+    }
+    const used = new Set(Object.values(this.state.assignments).map(a => a.topicId));
+    this.state.topics = this.state.topics.filter(topic => used.has(topic.id));
+  }
+
+  save(): void {
+    if (this.file) {
+      writeJsonFile(this.file, this.state);
+    }
+  }
+}
+
+// TOPIC_STORE=memory re-clusters from scratch on every restart (handy for local testing).
+export function createTopicStore(kind = process.env.TOPIC_STORE || 'file'): TopicStore {
+  switch (kind) {
+    case 'memory':
+      return new TopicStore();
+    case 'file':
+      return new TopicStore(process.env.TOPICS_FILE || path.join(DATA_DIR, 'topics.json'));
+    default:
+      throw new Error(`Unknown TOPIC_STORE "${kind}" (expected "file" or "memory")`);
+  }
+}
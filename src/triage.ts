@@ -0,0 +1,78 @@
+// src/triage.ts
+
+import { Triage, TriageStatus, TriageStatusSchema } from './schemas';
+
+export const TRIAGE_STATUS_LABELS: Record<TriageStatus, string> = {
+    new: 'New',
+    triaged: 'Triaged',
+    in_progress: 'In progress',
+    resolved: 'Resolved',
+    wont_fix: "Won't fix",
+};
+
+// Insights nobody has looked at yet have no triage record
+export function triageOf(insight: { triage?: Triage }): Triage {
+    return insight.triage ?? { status: 'new', notes: [], history: [] };
+}
+
+// Accepts the labels as people type them: "in progress", "in-progress", "won't fix", "wontfix", ...
+export function parseTriageStatus(text: string): TriageStatus | undefined {
+    const normalized = text.trim().toLowerCase().replace(/['’]/g, '').replace(/[\s-]+/g, '_').replace(/^wontfix$/, 'wont_fix');
+    return TriageStatusSchema.options.find(status => status === normalized);
+}
+
+export interface TriageChange {
+    status?: TriageStatus;
+    /** New assignee; an empty string unassigns. */
+    assignee?: string;
+    note?: string;
+}
+
+// --- Applies an edit, recording who changed what and when; unchanged fields leave no history ---
+export function applyTriage(current: Triage | undefined, change: TriageChange, by: string, at = new Date().toISOString()): Triage {
+    const triage = triageOf({ triage: current });
+    const next: Triage = { ...triage, notes: [...triage.notes], history: [...triage.history] };
+    if (change.status && change.status !== triage.status) {
+        next.status = change.status;
+        next.history.push({ at, by, field: 'status', from: triage.status, to: change.status });
+    }
+    const assignee = change.assignee?.trim();
+    if (assignee !== undefined && assignee !== (triage.assignee ?? '')) {
+        next.assignee = assignee || undefined;
+        next.history.push({ at, by, field: 'assignee', from: triage.assignee, to: assignee || undefined });
+    }
+    if (change.note?.trim()) {
+        next.notes.push({ at, by, text: change.note.trim() });
+    }
+    return next;
+}
+
+// "In progress · Assigned to Dana · 2 notes"
+export function describeTriage(insight: { triage?: Triage }): string {
+    const triage = triageOf(insight);
+    return [
+        TRIAGE_STATUS_LABELS[triage.status],
+        triage.assignee ? `Assigned to ${triage.assignee}` : 'Unassigned',
+        triage.notes.length ? `${triage.notes.length} note${triage.notes.length === 1 ? '' : 's'}` : '',
+    ].filter(Boolean).join(' · ');
+}
+
+// Newest first, for `/triage <id>`
+export function triageLog(triage: Triage, limit = 10): string[] {
+    const day = (at: string) => at.slice(0, 16).replace('T', ' ');
+    const label = (value?: string) => (value ? TRIAGE_STATUS_LABELS[value as TriageStatus] ?? value : 'nobody');
+    return [
+        ...triage.history.map(change => ({
+            at: change.at,
+            line: change.field === 'status'
+                ? `${day(change.at)} — ${change.by} set status ${label(change.from)} → ${label(change.to)}`
+                : change.to
+                    ? `${day(change.at)} — ${change.by} assigned ${change.to}${change.from ? ` (was ${change.from})` : ''}`
+                    : `${day(change.at)} — ${change.by} unassigned ${change.from}`,
+        })),
+        ...triage.notes.map(note => ({ at: note.at, line: `${day(note.at)} — ${note.by}: ${note.text}` })),
+    ]
+        .sort((a, b) => b.at.localeCompare(a.at))
+        .slice(0, limit)
+        .map(entry => entry.line);
+}
@@ -0,0 +1,23 @@
+// src/utils/jsonFile.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Local state (cursors, insights, ...) lives here unless a more specific path is configured.
+export const DATA_DIR = process.env.DATA_DIR || '.data';
+
+export function readJsonFile<T>(file: string, fallback: T): T {
+  if (!fs.existsSync(file)) {
+    return fallback;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+}
+
+// Writes to a temp file first so a crash mid-write never leaves a truncated JSON file behind.
+// `private` files (and a directory created for them) are readable by the owner only.
+export function writeJsonFile(file: string, data: unknown, options: { private?: boolean } = {}): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: options.private ? 0o700 : undefined });
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(data, null, 2), { mode: options.private ? 0o600 : undefined });
+  fs.renameSync(tmpFile, file);
+}
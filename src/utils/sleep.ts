@@ -0,0 +1,5 @@
+// src/utils/sleep.ts
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}